@@ -0,0 +1,94 @@
+import { NextResponse } from 'next/server';
+
+import { getLeaderboardStore } from '@/lib/leaderboard/store';
+import { RateLimiter } from '@/lib/leaderboard/rateLimit';
+import { parseSubmission, replayHash, SubmissionError, verifySubmission } from '@/lib/leaderboard/submission';
+import {
+  isLeaderboardMode,
+  LEADERBOARD_MAX_PAGE_SIZE,
+  LEADERBOARD_PAGE_SIZE,
+  type LeaderboardPage,
+  type SubmitResult,
+} from '@/lib/leaderboard/types';
+
+// ====== オンラインランキング API ======
+// GET  /api/leaderboard?mode=arcade&page=1&pageSize=20  順位表
+// POST /api/leaderboard  { name, mode, score, stage, replay }  replay を再生して検証してから登録
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// 投稿の上限サイズ（replay の入力ログ込み）
+const MAX_BODY_BYTES = 2 * 1024 * 1024;
+
+// 送信元ごとの投稿回数（ノーコンティニューのランは 1 回で 2 件送る）
+const submitLimiter = new RateLimiter(10, 60 * 1000);
+
+// 送信元の見分け。X-Forwarded-For / X-Real-IP はクライアントが自由に書けるので、
+// 信頼できるプロキシの後ろ（LEADERBOARD_TRUST_PROXY=1）でだけ使い、それ以外は全員をひとつとして数える。
+// X-Forwarded-For はプロキシが末尾に足すので、前の方はクライアントの書いた値のまま。末尾を使う
+const clientKey = (req: Request) => {
+  if (process.env.LEADERBOARD_TRUST_PROXY !== '1') return 'all';
+  return req.headers.get('x-forwarded-for')?.split(',').pop()?.trim() || req.headers.get('x-real-ip') || 'unknown';
+};
+
+// 本文を読む。content-length で先に断り、申告が無い・偽りでも上限バイトを超えた時点で読むのをやめる
+async function readBody(req: Request, limit: number) {
+  const declared = Number(req.headers.get('content-length'));
+  if (declared > limit) throw new SubmissionError('submission too large', 413);
+  if (!req.body) return '';
+  const reader = req.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let bytes = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytes += value.byteLength;
+    if (bytes > limit) {
+      await reader.cancel();
+      throw new SubmissionError('submission too large', 413);
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+const toInt = (value: string | null, fallback: number) => {
+  const n = value === null ? NaN : parseInt(value, 10);
+  return Number.isFinite(n) ? n : fallback;
+};
+
+export async function GET(req: Request) {
+  const params = new URL(req.url).searchParams;
+  const mode = params.get('mode') ?? 'arcade';
+  if (!isLeaderboardMode(mode)) return NextResponse.json({ error: `unknown mode: ${mode}` }, { status: 400 });
+  const page = Math.max(1, toInt(params.get('page'), 1));
+  const pageSize = Math.min(LEADERBOARD_MAX_PAGE_SIZE, Math.max(1, toInt(params.get('pageSize'), LEADERBOARD_PAGE_SIZE)));
+  const { total, entries } = await getLeaderboardStore().list(mode, (page - 1) * pageSize, pageSize);
+  return NextResponse.json({ mode, page, pageSize, total, entries } satisfies LeaderboardPage);
+}
+
+export async function POST(req: Request) {
+  try {
+    if (!submitLimiter.take(clientKey(req))) throw new SubmissionError('too many submissions', 429);
+    const text = await readBody(req, MAX_BODY_BYTES);
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      throw new SubmissionError('invalid JSON');
+    }
+    const submission = parseSubmission(body);
+    const store = getLeaderboardStore();
+    if (await store.hasReplay(submission.mode, replayHash(submission.replay))) {
+      throw new SubmissionError('this replay is already registered', 409);
+    }
+    const entry = verifySubmission(submission);
+    const rank = await store.add(entry);
+    if (rank === null) throw new SubmissionError('this replay is already registered', 409);
+    return NextResponse.json({ rank, entry } satisfies SubmitResult, { status: 201 });
+  } catch (err) {
+    if (err instanceof SubmissionError) return NextResponse.json({ error: err.message }, { status: err.status });
+    throw err;
+  }
+}
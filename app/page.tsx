@@ -1,493 +1,297 @@
 'use client';
 import React, { useEffect, useRef, useState } from 'react';
 
+import {
+  CanvasRenderer,
+  Game,
+  HIGH_SCORE_NAME_MAX,
+  HighScoreTable,
+  InputController,
+  MemoryStorage,
+  SETTINGS_STORAGE_KEY,
+  SNAPSHOT_STORAGE_KEY,
+  TOUCH_SCHEMES,
+  TOUCH_SCHEME_LABELS,
+  WebAudioEngine,
+  WebGLRenderer,
+  ACTIONS,
+  loadAssets,
+  ACTION_LABELS,
+  computeViewport,
+  DEFAULT_SETTINGS,
+  PLAYFIELDS,
+  RENDERER_KINDS,
+  RENDERER_LABELS,
+  SCALE_MODES,
+  SCALE_MODE_LABELS,
+  toPlayfield,
+  keyLabel,
+  parseReplay,
+  parseSettings,
+  parseSnapshot,
+  rebind,
+  type Action,
+  type GameState,
+  type HighScoreEntry,
+  type KeyValueStorage,
+  type PlayfieldName,
+  type RendererKind,
+  type Replay,
+  type Settings,
+  type Size,
+  type TextureAtlas,
+} from '@/lib/game';
+import {
+  LEADERBOARD_MODES,
+  type LeaderboardMode,
+  type LeaderboardPage,
+  type ScoreSubmission,
+  type SubmitResult,
+} from '@/lib/leaderboard/types';
+
 // =====================
-// 1ファイル ECS風スペースシューター（TypeScript / React）
-// 元機能を保持：移動、射撃、敵出現、衝突、スコア、HP、星背景、マウス/タッチ/キーボード
+// ECS風スペースシューター（TypeScript / React）
+// シミュレーション本体は lib/game、ここは Canvas と入力ハンドリングだけを持つ
 // =====================
 
-// ====== 定数 ======
-const GAME_WIDTH = 320;
-const GAME_HEIGHT = 568;
-const PLAYER_SIZE = 20;
-const PLAYER_SPEED = 4.5;
-const BULLET_SIZE = 4;
-const BULLET_SPEED = 7;
-const ENEMY_SIZE = 16;
-const ENEMY_SPEED = 1.5;
-const STAR_COUNT = 50;
-const ENEMY_SPAWN_RATE = 0.015;
-const BULLET_FIRE_RATE = 120; // ms
-
-// ====== 型定義 / ECS基礎 ======
-type Component = any;
-
-class Entity {
-  id: number;
-  components: Map<string, Component>;
-  constructor(id: number) {
-    this.id = id;
-    this.components = new Map();
-  }
-  add(name: string, comp: Component) {
-    this.components.set(name, comp);
-    return this;
-  }
-  remove(name: string) {
-    this.components.delete(name);
-    return this;
-  }
-  get<T = any>(name: string): T | undefined {
-    return this.components.get(name) as T | undefined;
-  }
-  has(name: string) {
-    return this.components.has(name);
-  }
-}
-
-// Component 名を列挙しておく（文字列で扱う）
-const C_POSITION = 'position';
-const C_VELOCITY = 'velocity';
-const C_RENDER = 'render';
-const C_PLAYER = 'player';
-const C_BULLET = 'bullet';
-const C_ENEMY = 'enemy';
-const C_STAR = 'star';
-const C_INPUT = 'input';
-const C_LIFETIME = 'lifetime';
-
-// コンポーネント型ヘルパー
-type Vec2 = { x: number; y: number; };
-
-// ====== ユーティリティ ======
-const createVector2 = (x = 0, y = 0): Vec2 => ({ x, y });
-const distance = (a: Vec2, b: Vec2) => Math.hypot(a.x - b.x, a.y - b.y);
-const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
-const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
 const nowMs = () => Date.now();
 
-// ====== Game クラス（Entity 管理 & Systems 呼び出し） ======
-class Game {
-  // entity 管理
-  private nextId = 1;
-  entities: Map<number, Entity> = new Map();
-
-  // UI 状態
-  score = 0;
-  hp = 3;
-  gameState: 'playing' | 'gameOver' = 'playing';
-
-  // 入力 & fire 管理
-  lastFireTime = 0;
-
-  // canvas サイズ
-  width = GAME_WIDTH;
-  height = GAME_HEIGHT;
-
-  // 初期化
-  constructor() {
-    this.reset(true);
+// canvas を表示領域に合わせる（backing store は devicePixelRatio 倍）。変わったときだけ DOM に触る
+const fitCanvas = (canvas: HTMLCanvasElement, avail: Size, game: Game) => {
+  const vp = computeViewport(avail, game, game.settings.scaleMode, window.devicePixelRatio || 1);
+  if (canvas.width !== vp.pixelWidth) canvas.width = vp.pixelWidth;
+  if (canvas.height !== vp.pixelHeight) canvas.height = vp.pixelHeight;
+  const w = `${vp.cssWidth}px`;
+  const h = `${vp.cssHeight}px`;
+  if (canvas.style.width !== w) canvas.style.width = w;
+  if (canvas.style.height !== h) canvas.style.height = h;
+};
+
+const VOLUME_SLIDERS = [
+  { key: 'masterVolume', label: '全体' },
+  { key: 'sfxVolume', label: '効果音' },
+  { key: 'musicVolume', label: 'BGM' },
+] as const;
+
+// タッチ直後にブラウザが送ってくる互換マウスイベントを無視する時間
+const TOUCH_MOUSE_GUARD_MS = 800;
+
+// 振動（対応端末のみ。設定で切れる）
+const vibrate = (settings: Settings, pattern: number | number[]) => {
+  if (!settings.vibration || typeof navigator.vibrate !== 'function') return;
+  navigator.vibrate(pattern);
+};
+
+// 設定は localStorage に保存。未保存なら OS の「視差効果を減らす」に合わせる
+const loadSettings = (): Settings => {
+  const prefersReduced = window.matchMedia?.('(prefers-reduced-motion: reduce)').matches ?? false;
+  const defaults = parseSettings({ reducedMotion: prefersReduced });
+  try {
+    const raw = window.localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return raw ? parseSettings(JSON.parse(raw), defaults) : defaults;
+  } catch {
+    return defaults;
   }
-
-  // Entity 作成
-  createEntity() {
-    const id = this.nextId++;
-    const e = new Entity(id);
-    this.entities.set(id, e);
-    return e;
+};
+const saveSettings = (settings: Settings) => {
+  try {
+    window.localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // 保存できなくてもプレイは続ける
   }
-  destroyEntity(e: Entity) {
-    this.entities.delete(e.id);
+};
+
+// タブが裏で破棄されても続きから遊べるよう、隠れるときにラン途中の状態を sessionStorage へ保存する
+// （タブを閉じれば消える）。リプレイ再生中やランの外では保存しない
+const RESUMABLE_STATES: readonly GameState[] = ['playing', 'paused', 'stageClear', 'gameOver'];
+const saveSession = (game: Game) => {
+  try {
+    if (game.playback || !RESUMABLE_STATES.includes(game.gameState)) window.sessionStorage.removeItem(SNAPSHOT_STORAGE_KEY);
+    else window.sessionStorage.setItem(SNAPSHOT_STORAGE_KEY, JSON.stringify(game.snapshot()));
+  } catch {
+    // 保存できなくてもプレイは続ける
   }
-
-  // find helpers
-  findAllWith(...components: string[]) {
-    const out: Entity[] = [];
-    for (const e of this.entities.values()) {
-      let ok = true;
-      for (const c of components) if (!e.has(c)) { ok = false; break; }
-      if (ok) out.push(e);
-    }
-    return out;
+};
+const clearSession = () => {
+  try {
+    window.sessionStorage.removeItem(SNAPSHOT_STORAGE_KEY);
+  } catch {
+    // 消せなくても次の保存で上書きされる
   }
-
-  // リセット（初期プレイヤーや星を作る）
-  reset(skipScore = false) {
-    this.entities.clear();
-    this.nextId = 1;
-    if (!skipScore) {
-      this.score = 0;
-      this.hp = 3;
-      this.gameState = 'playing';
-    } else {
-      // 初起動時のscoreは0
-      this.score = 0;
-      this.hp = 3;
-    }
-    // Player entity
-    const player = this.createEntity();
-    player.add(C_POSITION, createVector2(this.width / 2, this.height - 60));
-    player.add(C_VELOCITY, createVector2(0, 0));
-    player.add(C_RENDER, { color: '#00ff88', size: PLAYER_SIZE });
-    player.add(C_PLAYER, { health: 3 });
-
-    // Input "entity" to store pointer / keyboard states (singleton)
-    const input = this.createEntity();
-    input.add(C_INPUT, {
-      left: false,
-      right: false,
-      up: false,
-      down: false,
-      shoot: false,
-      touching: false,
-      mousePos: createVector2(this.width / 2, this.height - 60),
-    });
-
-    // Stars
-    for (let i = 0; i < STAR_COUNT; i++) {
-      const s = this.createEntity();
-      s.add(C_STAR, { brightness: Math.random() * 0.8 + 0.2 });
-      s.add(C_POSITION, createVector2(Math.random() * this.width, Math.random() * this.height));
-      s.add(C_VELOCITY, createVector2(0, Math.random() * 1.5 + 0.3));
-      s.add(C_RENDER, { color: '#fff', size: Math.random() * 2 + 0.5 });
-    }
-
-    // reset fire timer
-    this.lastFireTime = nowMs();
+};
+// 保存されたランの続きから始める。壊れていたら消して false（呼び出し側はタイトルへ）
+const resumeSession = (game: Game) => {
+  try {
+    const raw = window.sessionStorage.getItem(SNAPSHOT_STORAGE_KEY);
+    if (!raw) return false;
+    game.restore(parseSnapshot(JSON.parse(raw)));
+    return true;
+  } catch (err) {
+    console.warn(err);
+    clearSession();
+    return false;
   }
-
-  // === Systems ===
-
-  // InputSystem: updates player velocity and shooting based on input component
-  system_InputToPlayer(dt: number) {
-    const inputEntity = this.findAllWith(C_INPUT)[0];
-    if (!inputEntity) return;
-    const inp = inputEntity.get(C_INPUT);
-
-    const players = this.findAllWith(C_PLAYER, C_POSITION, C_VELOCITY);
-    players.forEach(p => {
-      const pos = p.get<Vec2>(C_POSITION)!;
-      const vel = p.get<Vec2>(C_VELOCITY)!;
-
-      // keyboard movement base
-      let targetVelX = 0;
-      let targetVelY = 0;
-      if (inp.left) targetVelX -= PLAYER_SPEED;
-      if (inp.right) targetVelX += PLAYER_SPEED;
-      if (inp.up) targetVelY -= PLAYER_SPEED;
-      if (inp.down) targetVelY += PLAYER_SPEED;
-
-      // pointer/touch chasing
-      if (inp.touching) {
-        const dx = inp.mousePos.x - pos.x;
-        const dy = inp.mousePos.y - pos.y;
-        const dist = Math.hypot(dx, dy);
-        if (dist > 8) {
-          const factor = Math.min(1, dist / 60);
-          targetVelX = dx * 0.15 * factor;
-          targetVelY = dy * 0.15 * factor;
-          const speed = Math.hypot(targetVelX, targetVelY);
-          if (speed > PLAYER_SPEED) {
-            targetVelX = (targetVelX / speed) * PLAYER_SPEED;
-            targetVelY = (targetVelY / speed) * PLAYER_SPEED;
-          }
-        }
-      }
-
-      vel.x = lerp(vel.x, targetVelX, 0.15);
-      vel.y = lerp(vel.y, targetVelY, 0.15);
-
-      // clamp player position later in MovementSystem
-    });
-  }
-
-  // MovementSystem: moves entities by velocity; handles star wrapping; lifetime countdown
-  system_Movement(dt: number) {
-    for (const e of Array.from(this.entities.values())) {
-      const pos = e.get<Vec2>(C_POSITION);
-      const vel = e.get<Vec2>(C_VELOCITY);
-      if (pos && vel) {
-        pos.x += vel.x;
-        pos.y += vel.y;
-      }
-      // star wrap
-      if (e.has(C_STAR) && pos && vel) {
-        if (pos.y > this.height + 5) {
-          pos.y = -5;
-          pos.x = Math.random() * this.width;
-          vel.y = Math.random() * 1.5 + 0.3;
-        }
-      }
-      // lifetime
-      if (e.has(C_LIFETIME)) {
-        const lt = e.get<{ t: number }>(C_LIFETIME)!;
-        lt.t -= dt;
-        if (lt.t <= 0) this.destroyEntity(e);
-      }
-    }
-
-    // clamp player within screen
-    const players = this.findAllWith(C_PLAYER, C_POSITION, C_RENDER);
-    players.forEach(p => {
-      const pos = p.get<Vec2>(C_POSITION)!;
-      const r = p.get<{ size: number }>(C_RENDER)!;
-      const half = (r.size ?? PLAYER_SIZE) / 2;
-      pos.x = clamp(pos.x, half, this.width - half);
-      pos.y = clamp(pos.y, half, this.height - half);
-    });
-  }
-
-  // ShootingSystem: player shooting => spawn bullets (respects BULLET_FIRE_RATE)
-  system_Shooting() {
-    const inputEntity = this.findAllWith(C_INPUT)[0];
-    if (!inputEntity) return;
-    const inp = inputEntity.get(C_INPUT);
-    const players = this.findAllWith(C_PLAYER, C_POSITION);
-    if (!players.length) return;
-
-    const now = nowMs();
-    const player = players[0];
-    if (inp.shoot && now - this.lastFireTime > BULLET_FIRE_RATE) {
-      const ppos = player.get<Vec2>(C_POSITION)!;
-      const b = this.createEntity();
-      b.add(C_POSITION, createVector2(ppos.x, ppos.y));
-      b.add(C_VELOCITY, createVector2(0, -BULLET_SPEED));
-      b.add(C_RENDER, { color: '#ffff00', size: BULLET_SIZE });
-      b.add(C_BULLET, { owner: 'player', damage: 1 });
-      // small lifetime to cleanup if off-screen
-      b.add(C_LIFETIME, { t: 3000 }); // 3s safety (also cleaned by bounds)
-      this.lastFireTime = now;
-    }
+};
+
+// localStorage が使えない環境（プライベートモード等）ではメモリに置く
+const getStorage = (): KeyValueStorage => {
+  try {
+    window.localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return window.localStorage;
+  } catch {
+    return new MemoryStorage();
   }
-
-  // EnemySpawnSystem: random spawn enemies
-  system_EnemySpawn() {
-    if (Math.random() < ENEMY_SPAWN_RATE) {
-      const e = this.createEntity();
-      e.add(C_POSITION, createVector2(Math.random() * (this.width - ENEMY_SIZE) + ENEMY_SIZE / 2, -ENEMY_SIZE));
-      e.add(C_VELOCITY, createVector2(0, ENEMY_SPEED));
-      e.add(C_RENDER, { color: '#ff4444', size: ENEMY_SIZE });
-      e.add(C_ENEMY, { type: 'basic' });
-      // optional lifetime or HP could be added later
-    }
-  }
-
-  // CleanupSystem: remove bullets/enemies out of bounds
-  system_Cleanup() {
-    for (const e of Array.from(this.entities.values())) {
-      if (e.has(C_BULLET) || e.has(C_ENEMY)) {
-        const pos = e.get<Vec2>(C_POSITION);
-        const r = e.get<{ size: number }>(C_RENDER);
-        if (!pos) continue;
-        const margin = (r?.size ?? 16) + 20;
-        if (pos.y < -margin || pos.y > this.height + margin || pos.x < -margin || pos.x > this.width + margin) {
-          this.destroyEntity(e);
-        }
-      }
-    }
-  }
-
-  // CollisionSystem: bullet vs enemy, enemy vs player -> update score/hp and spawn particles stub (not full particle engine but structure)
-  system_Collision() {
-    const bullets = this.findAllWith(C_BULLET, C_POSITION, C_RENDER);
-    const enemies = this.findAllWith(C_ENEMY, C_POSITION, C_RENDER);
-    const players = this.findAllWith(C_PLAYER, C_POSITION, C_RENDER);
-
-    // Player collisions with enemies
-    for (const enemy of enemies) {
-      const epos = enemy.get<Vec2>(C_POSITION)!;
-      const ers = enemy.get<{ size: number }>(C_RENDER)!;
-      for (const player of players) {
-        const ppos = player.get<Vec2>(C_POSITION)!;
-        const prs = player.get<{ size: number }>(C_RENDER)!;
-        if (distance(epos, ppos) < (ers.size + prs.size) / 2) {
-          // collision
-          this.destroyEntity(enemy);
-          this.hp -= 1;
-          if (this.hp <= 0) {
-            this.gameState = 'gameOver';
-            this.hp = 0;
-          }
-        }
-      }
-    }
-
-    // Bullet vs Enemy
-    for (const bullet of bullets) {
-      const bpos = bullet.get<Vec2>(C_POSITION)!;
-      const brs = bullet.get<{ size: number }>(C_RENDER)!;
-      for (const enemy of enemies) {
-        const epos = enemy.get<Vec2>(C_POSITION)!;
-        const ers = enemy.get<{ size: number }>(C_RENDER)!;
-        if (distance(bpos, epos) < (brs.size + ers.size) / 2) {
-          // hit
-          this.score += 100;
-          // destroy both
-          this.destroyEntity(enemy);
-          this.destroyEntity(bullet);
-          break;
-        }
-      }
-    }
-  }
-
-  // RenderSystem: draw everything to canvas context
-  system_Render(ctx: CanvasRenderingContext2D) {
-    // clear
-    ctx.fillStyle = '#000011';
-    ctx.fillRect(0, 0, this.width, this.height);
-
-    // stars
-    const stars = this.findAllWith(C_STAR, C_POSITION, C_RENDER);
-    for (const s of stars) {
-      const pos = s.get<Vec2>(C_POSITION)!;
-      const r = s.get<{ size: number }>(C_RENDER)!;
-      const star = s.get<{ brightness: number }>(C_STAR)!;
-      ctx.fillStyle = `rgba(255,255,255,${star.brightness})`;
-      ctx.beginPath();
-      ctx.arc(pos.x, pos.y, (r.size ?? 1) / 2, 0, Math.PI * 2);
-      ctx.fill();
-    }
-
-    // player
-    const players = this.findAllWith(C_PLAYER, C_POSITION, C_RENDER, C_VELOCITY);
-    for (const p of players) {
-      const pos = p.get<Vec2>(C_POSITION)!;
-      const r = p.get<{ color: string; size: number }>(C_RENDER)!;
-      const vel = p.get<Vec2>(C_VELOCITY)!;
-      // ship shape
-      ctx.fillStyle = r.color;
-      ctx.strokeStyle = '#ffffff';
-      ctx.lineWidth = 1;
-      ctx.beginPath();
-      ctx.moveTo(pos.x, pos.y - r.size / 2);
-      ctx.lineTo(pos.x - r.size / 3, pos.y + r.size / 2);
-      ctx.lineTo(pos.x, pos.y + r.size / 4);
-      ctx.lineTo(pos.x + r.size / 3, pos.y + r.size / 2);
-      ctx.closePath();
-      ctx.fill();
-      ctx.stroke();
-      if (Math.abs(vel.x) > 0.5 || Math.abs(vel.y) > 0.5) {
-        ctx.fillStyle = '#ff6600';
-        ctx.beginPath();
-        ctx.moveTo(pos.x - 3, pos.y + r.size / 2);
-        ctx.lineTo(pos.x, pos.y + r.size / 2 + 8);
-        ctx.lineTo(pos.x + 3, pos.y + r.size / 2);
-        ctx.fill();
-      }
-    }
-
-    // bullets
-    const bullets = this.findAllWith(C_BULLET, C_POSITION, C_RENDER);
-    for (const b of bullets) {
-      const pos = b.get<Vec2>(C_POSITION)!;
-      const r = b.get<{ color: string; size: number }>(C_RENDER)!;
-      ctx.fillStyle = r.color;
-      ctx.shadowColor = r.color;
-      ctx.shadowBlur = 4;
-      ctx.beginPath();
-      ctx.arc(pos.x, pos.y, (r.size ?? 4) / 2, 0, Math.PI * 2);
-      ctx.fill();
-      ctx.shadowBlur = 0;
-    }
-
-    // enemies
-    const enemies = this.findAllWith(C_ENEMY, C_POSITION, C_RENDER);
-    for (const e of enemies) {
-      const pos = e.get<Vec2>(C_POSITION)!;
-      const r = e.get<{ color: string; size: number }>(C_RENDER)!;
-      ctx.fillStyle = r.color;
-      ctx.strokeStyle = '#aa0000';
-      ctx.lineWidth = 1;
-      ctx.fillRect(pos.x - r.size / 2, pos.y - r.size / 2, r.size, r.size);
-      ctx.strokeRect(pos.x - r.size / 2, pos.y - r.size / 2, r.size, r.size);
-    }
-
-    // UI
-    ctx.fillStyle = 'rgba(255,255,255,0.9)';
-    ctx.font = 'bold 16px Arial';
-    ctx.fillText(`スコア: ${this.score}`, 10, 25);
-    ctx.fillStyle = '#ff0066';
-    for (let i = 0; i < this.hp; i++) {
-      ctx.fillText('♥', 10 + i * 20, 45);
-    }
-    ctx.fillStyle = 'rgba(255,255,255,0.3)';
-    for (let i = this.hp; i < 3; i++) {
-      ctx.fillText('♡', 10 + i * 20, 45);
-    }
-
-    // game over overlay
-    if (this.gameState === 'gameOver') {
-      const gradient = ctx.createRadialGradient(this.width / 2, this.height / 2, 0, this.width / 2, this.height / 2, Math.max(this.width, this.height));
-      gradient.addColorStop(0, 'rgba(255,0,0,0.1)');
-      gradient.addColorStop(1, 'rgba(0,0,0,0.8)');
-      ctx.fillStyle = gradient;
-      ctx.fillRect(0, 0, this.width, this.height);
-      ctx.fillStyle = 'white';
-      ctx.font = 'bold 28px Arial';
-      ctx.textAlign = 'center';
-      ctx.strokeStyle = 'black';
-      ctx.lineWidth = 2;
-      ctx.strokeText('GAME OVER', this.width / 2, this.height / 2 - 20);
-      ctx.fillText('GAME OVER', this.width / 2, this.height / 2 - 20);
-      ctx.font = 'bold 18px Arial';
-      ctx.fillStyle = '#ffff00';
-      ctx.strokeText(`SCORE: ${this.score}`, this.width / 2, this.height / 2 + 10);
-      ctx.fillText(`SCORE: ${this.score}`, this.width / 2, this.height / 2 + 10);
-      ctx.font = '16px Arial';
-      ctx.fillStyle = '#cccccc';
-      ctx.fillText('タップでリスタート', this.width / 2, this.height / 2 + 40);
-      ctx.textAlign = 'left';
-      ctx.strokeStyle = 'transparent';
-      ctx.lineWidth = 1;
-    }
-  }
-
-  // === 毎フレーム update 呼び出し箇所 ===
-  updateAndRender(ctx: CanvasRenderingContext2D, dtMs: number) {
-    if (this.gameState === 'gameOver') {
-      // still render overlay; but we don't spawn new enemies or allow hp changes until restart
-      this.system_Movement(dtMs);
-      this.system_Render(ctx);
-      return;
-    }
-
-    // order matters: input -> shooting -> spawn -> movement -> collision -> cleanup -> render
-    this.system_InputToPlayer(dtMs);
-    this.system_Shooting();
-    this.system_EnemySpawn();
-    this.system_Movement(dtMs);
-    this.system_Collision();
-    this.system_Cleanup();
-    this.system_Render(ctx);
-  }
-
-  // 操作ハンドラ呼び出し用
-  setInput(updates: Partial<any>) {
-    const inputEntity = this.findAllWith(C_INPUT)[0];
-    if (!inputEntity) return;
-    const inp = inputEntity.get(C_INPUT);
-    Object.assign(inp, updates);
-  }
-}
+};
+
+// オンラインランキング API（app/api/leaderboard）
+const LEADERBOARD_API = '/api/leaderboard';
+const MODE_LABELS: Record<LeaderboardMode, string> = { arcade: 'アーケード', oneCredit: 'ノーコンティニュー' };
+
+const fetchLeaderboard = async (mode: LeaderboardMode): Promise<LeaderboardPage> => {
+  const res = await fetch(`${LEADERBOARD_API}?mode=${mode}&pageSize=10`);
+  if (!res.ok) throw new Error(`ランキングを取得できません (${res.status})`);
+  return res.json();
+};
+
+const postScore = async (submission: ScoreSubmission): Promise<SubmitResult> => {
+  const res = await fetch(LEADERBOARD_API, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(submission),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error ?? `送信に失敗しました (${res.status})`);
+  return data;
+};
+
+const downloadJson = (filename: string, json: string) => {
+  const blob = new Blob([json], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
 
 // ====== React Component (Canvas & input handling) ======
 export default function SpaceShooterECS() {
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  // WebGL で描くときのワールド用 canvas（canvasRef の下に重ねる）
+  const glCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  // canvas を置ける領域（CSS px）。ResizeObserver で更新し、毎フレーム fitCanvas に渡す
+  const stageRef = useRef<HTMLDivElement | null>(null);
+  const availRef = useRef<Size>({ width: 320, height: 568 });
   const gameRef = useRef<Game | null>(null);
   const rafRef = useRef<number | null>(null);
 
   const [score, setScore] = useState(0);
   const [hp, setHp] = useState(3);
-  const [gameState, setGameState] = useState<'playing' | 'gameOver'>('playing');
+  const [gameState, setGameState] = useState<GameState>('title');
+
+  // リプレイビューア状態（ループからは ref 経由で読む）
+  const [replaying, setReplaying] = useState(false);
+  const [replayPaused, setReplayPaused] = useState(false);
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const replayCtlRef = useRef({ paused: false, speed: 1 });
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const snapshotInputRef = useRef<HTMLInputElement | null>(null);
+
+  // 設定（Game.settings の写し。変更は updateSettings 経由で保存する）
+  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
+  const [webglFailed, setWebglFailed] = useState(false);
+  const controllerRef = useRef<InputController | null>(null);
+  const [rebinding, setRebinding] = useState<Action | null>(null);
+  const rebindingRef = useRef<Action | null>(null);
+
+  // ハイスコア：ラン終了（コンティニュー締め切り）時に名前入力を出す。
+  // ローカルの表に載るならそこへ、オンラインには replay を添えて送る
+  const tableRef = useRef<HighScoreTable | null>(null);
+  const pendingRunRef = useRef<{ replay: Replay; continues: number } | null>(null);
+  const [highScores, setHighScores] = useState<readonly HighScoreEntry[]>([]);
+  const [pendingEntry, setPendingEntry] = useState<Omit<HighScoreEntry, 'name' | 'date'> | null>(null);
+  const [entryName, setEntryName] = useState('');
+  const [lastRank, setLastRank] = useState(-1);
+  const scoreFileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const [submitOnline, setSubmitOnline] = useState(true);
+  const [onlineMode, setOnlineMode] = useState<LeaderboardMode>('arcade');
+  const [onlineBoard, setOnlineBoard] = useState<LeaderboardPage | null>(null);
+  const [onlineStatus, setOnlineStatus] = useState('');
 
   // initialize game
   useEffect(() => {
     const g = new Game();
+    g.settings = loadSettings();
+
+    // UI の state はゲームイベントで更新する（毎フレーム値を比べない）
+    const { events } = g;
+    const syncAll = () => {
+      setScore(g.score);
+      setHp(g.hp);
+      setGameState(g.gameState);
+    };
+    const unsubscribe = [
+      events.on('runStarted', syncAll),
+      events.on('snapshotRestored', syncAll),
+      events.on('scoreChanged', e => setScore(e.score)),
+      events.on('healthChanged', e => setHp(e.health)),
+      events.on('stateChanged', e => {
+        setGameState(e.to);
+        // ラン終了（コンティニュー締め切り）→ 名前入力
+        if (e.to === 'results' && !g.playback && g.score > 0) {
+          pendingRunRef.current = { replay: g.exportReplay(), continues: g.continues };
+          setPendingEntry({ score: g.score, stage: g.stage.number, seed: g.seed });
+        }
+      }),
+      // 被弾 / ボムで振動（リプレイ再生中は鳴らさない）
+      events.on('playerHit', e => {
+        if (!g.playback && !e.shielded && e.health > 0) vibrate(g.settings, 80);
+      }),
+      events.on('playerDied', () => {
+        if (!g.playback) vibrate(g.settings, [120, 60, 240]);
+      }),
+      events.on('bombUsed', () => {
+        if (!g.playback) vibrate(g.settings, [40, 30, 40]);
+      }),
+    ];
+
+    g.playfield = PLAYFIELDS[g.settings.playfield];
+    g.showLoading();
     gameRef.current = g;
-    setScore(g.score);
-    setHp(g.hp);
-    setGameState(g.gameState);
+    controllerRef.current = new InputController(g);
+    // 音はユーザー操作があるまで鳴らせないので、最初のキー / クリック / タップで有効にする
+    const audio = new WebAudioEngine();
+    g.audio = audio;
+    const unlockAudio = () => audio.unlock();
+    const gestures = ['keydown', 'pointerdown', 'touchstart'] as const;
+    gestures.forEach(type => window.addEventListener(type, unlockAudio));
+    setSettings(g.settings);
+    const table = new HighScoreTable(getStorage());
+    tableRef.current = table;
+    setHighScores(table.entries);
+
+    // screen: 2D canvas に描く（Canvas2D のときは全部、WebGL のときは HUD / メニューだけ）
+    let screen: CanvasRenderer | null = null;
+    let webgl: WebGLRenderer | null = null;
+    let webglUnavailable = false;
+    // スプライトの読み込み。失敗してもベクター描画で遊べるので警告だけ出してタイトルへ
+    // （タブが破棄される前のランが残っていればその続きから）
+    let atlas: TextureAtlas | null = null;
+    let disposed = false;
+    loadAssets(p => (g.loadProgress = p))
+      .then(assets => {
+        if (disposed) return;
+        assets.errors.forEach(err => console.warn(err));
+        atlas = assets.atlas;
+        if (screen) screen.atlas = atlas;
+        if (g.gameState === 'loading' && !resumeSession(g)) g.showTitle();
+      })
+      .catch(err => {
+        console.warn(err);
+        clearSession();
+        if (!disposed && g.gameState === 'loading') g.showTitle();
+      });
 
     let last = nowMs();
     const loop = () => {
@@ -495,20 +299,50 @@ export default function SpaceShooterECS() {
       const dt = cur - last;
       last = cur;
       const canvas = canvasRef.current;
+      const glCanvas = glCanvasRef.current;
+      const wantWebgl = g.settings.renderer === 'webgl' && !webglUnavailable;
+      if (canvas) fitCanvas(canvas, availRef.current, g);
+      if (glCanvas && wantWebgl) fitCanvas(glCanvas, availRef.current, g);
       const ctx = canvas?.getContext('2d');
-      if (ctx && g) {
-        g.updateAndRender(ctx, dt);
-        // sync UI states if changed
-        if (score !== g.score) setScore(g.score);
-        if (hp !== g.hp) setHp(g.hp);
-        if (gameState !== g.gameState) setGameState(g.gameState);
+      if (ctx && !screen) {
+        screen = new CanvasRenderer(ctx);
+        screen.touch = controllerRef.current?.touch ?? null;
+        screen.atlas = atlas;
+      }
+      // 設定に合わせて WebGL を作る / やめる。作れない・context を失ったときは以後 Canvas2D で描く
+      if (webgl && (!wantWebgl || webgl.lost)) {
+        if (webgl.lost) {
+          webglUnavailable = true;
+          setWebglFailed(true);
+        }
+        webgl.dispose();
+        webgl = null;
+      } else if (!webgl && wantWebgl && screen && glCanvas) {
+        webgl = WebGLRenderer.create(glCanvas, screen);
+        if (!webgl) {
+          console.warn('WebGL が使えないため Canvas2D で描画します');
+          webglUnavailable = true;
+          setWebglFailed(true);
+        }
+      }
+      const renderer = webgl ?? screen;
+      if (renderer && g) {
+        const ctl = replayCtlRef.current;
+        const simDt = g.playback ? (ctl.paused ? 0 : dt * ctl.speed) : dt;
+        controllerRef.current?.update(navigator.getGamepads?.() ?? []);
+        g.updateAndRender(renderer, simDt);
       }
       rafRef.current = requestAnimationFrame(loop);
     };
     rafRef.current = requestAnimationFrame(loop);
 
     return () => {
+      disposed = true;
       if (rafRef.current) cancelAnimationFrame(rafRef.current);
+      unsubscribe.forEach(off => off());
+      gestures.forEach(type => window.removeEventListener(type, unlockAudio));
+      audio.playMusic(null);
+      audio.suspend();
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // mount 一度きり
@@ -517,113 +351,255 @@ export default function SpaceShooterECS() {
   const resetGame = () => {
     if (!gameRef.current) return;
     gameRef.current.reset(false);
-    setScore(gameRef.current.score);
-    setHp(gameRef.current.hp);
-    setGameState(gameRef.current.gameState);
+    setReplaying(false);
+  };
+
+  const updateSettings = (patch: Partial<Settings>) => {
+    const g = gameRef.current;
+    if (!g) return;
+    g.settings = { ...g.settings, ...patch };
+    saveSettings(g.settings);
+    setSettings(g.settings);
+    // プレイフィールドが変わったら新しい大きさでタイトルからやり直す
+    if (patch.playfield) {
+      g.playfield = PLAYFIELDS[patch.playfield];
+      if (!g.playback && g.gameState !== 'loading' && (g.width !== g.playfield.width || g.height !== g.playfield.height)) g.showTitle();
+    }
+  };
+
+  const startRebind = (action: Action) => {
+    rebindingRef.current = action;
+    setRebinding(action);
+  };
+
+  // ===== High scores (name entry / export / import) =====
+  const submitHighScore = (e: React.FormEvent) => {
+    e.preventDefault();
+    const table = tableRef.current;
+    if (!table || !pendingEntry) return;
+    setLastRank(table.add({ ...pendingEntry, name: entryName }));
+    setHighScores(table.entries);
+    setPendingEntry(null);
+    const run = pendingRunRef.current;
+    pendingRunRef.current = null;
+    if (submitOnline && run) submitRun(run.replay, run.continues, pendingEntry.score, pendingEntry.stage);
+  };
+
+  // ノーコンティニューなら両方の mode に送る
+  const submitRun = async (replay: Replay, continues: number, score: number, stage: number) => {
+    const modes: LeaderboardMode[] = continues === 0 ? ['arcade', 'oneCredit'] : ['arcade'];
+    setOnlineStatus('送信中…');
+    try {
+      const results = await Promise.all(modes.map(mode => postScore({ name: entryName, mode, score, stage, replay })));
+      setOnlineStatus(results.map((r, i) => `${MODE_LABELS[modes[i]]} ${r.rank}位`).join(' / '));
+      loadOnlineBoard(onlineMode);
+    } catch (err) {
+      setOnlineStatus(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const loadOnlineBoard = async (mode: LeaderboardMode) => {
+    setOnlineMode(mode);
+    try {
+      setOnlineBoard(await fetchLeaderboard(mode));
+    } catch (err) {
+      setOnlineBoard(null);
+      setOnlineStatus(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  useEffect(() => {
+    loadOnlineBoard('arcade');
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const exportHighScores = () => {
+    if (!tableRef.current) return;
+    downloadJson('highscores.json', tableRef.current.exportJSON());
+  };
+
+  const importHighScores = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    const table = tableRef.current;
+    if (!file || !table) return;
+    try {
+      table.importJSON(await file.text());
+      setHighScores(table.entries);
+      setLastRank(-1);
+    } catch (err) {
+      window.alert(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // ===== Replay (export / import / viewer controls) =====
+  const setReplayControl = (paused: boolean, speed: number) => {
+    replayCtlRef.current = { paused, speed };
+    setReplayPaused(paused);
+    setReplaySpeed(speed);
+  };
+
+  const exportReplay = () => {
+    if (!gameRef.current) return;
+    const replay = gameRef.current.exportReplay();
+    downloadJson(`replay-${replay.seed}-${replay.ticks}.json`, JSON.stringify(replay));
+  };
+
+  const importReplay = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !gameRef.current) return;
+    try {
+      const replay = parseReplay(JSON.parse(await file.text()));
+      gameRef.current.startPlayback(replay);
+      setReplayControl(false, 1);
+      setReplaying(true);
+    } catch (err) {
+      window.alert(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // ===== Snapshot (export / import) =====
+  // 任意の時点（ボス直前など）を保存しておき、そこから何度でも始め直せる
+  const exportSnapshot = () => {
+    const g = gameRef.current;
+    if (!g || g.gameState === 'loading') return;
+    const snap = g.snapshot();
+    downloadJson(`snapshot-${snap.seed}-${snap.tick}.json`, JSON.stringify(snap));
   };
 
-  // ===== Input handlers (keyboard) =====
+  const importSnapshot = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    const g = gameRef.current;
+    if (!file || !g || g.gameState === 'loading') return;
+    try {
+      g.restore(parseSnapshot(JSON.parse(await file.text())));
+      setReplayControl(false, 1);
+      setReplaying(!!g.playback);
+    } catch (err) {
+      window.alert(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const stepReplayFrame = () => {
+    const g = gameRef.current;
+    if (!g || !g.playback) return;
+    setReplayControl(true, replayCtlRef.current.speed);
+    g.step();
+  };
+
+  // ===== Input handlers (keyboard / gamepad → InputController) =====
   useEffect(() => {
     const onKeyDown = (e: KeyboardEvent) => {
-      if (!gameRef.current) return;
-      switch (e.code) {
-        case 'ArrowLeft':
-        case 'KeyA':
-          gameRef.current.setInput({ left: true });
-          break;
-        case 'ArrowRight':
-        case 'KeyD':
-          gameRef.current.setInput({ right: true });
-          break;
-        case 'ArrowUp':
-        case 'KeyW':
-          gameRef.current.setInput({ up: true });
-          break;
-        case 'ArrowDown':
-        case 'KeyS':
-          gameRef.current.setInput({ down: true });
-          break;
-        case 'Space':
-          gameRef.current.setInput({ shoot: true });
-          e.preventDefault();
-          break;
+      const g = gameRef.current;
+      const controller = controllerRef.current;
+      if (!g || !controller || e.target instanceof HTMLInputElement) return; // 名前入力中はゲームに渡さない
+      // キー設定の変更待ち：次に押されたキーを割り当てる（Escape で取り消し）
+      const action = rebindingRef.current;
+      if (action) {
+        e.preventDefault();
+        rebindingRef.current = null;
+        setRebinding(null);
+        if (e.code !== 'Escape') updateSettings({ keyBindings: rebind(g.settings.keyBindings, action, e.code) });
+        return;
       }
+      if (e.code === 'F3') {
+        g.debug = !g.debug;
+        e.preventDefault();
+        return;
+      }
+      if (controller.keyDown(e.code)) e.preventDefault();
     };
     const onKeyUp = (e: KeyboardEvent) => {
-      if (!gameRef.current) return;
-      switch (e.code) {
-        case 'ArrowLeft':
-        case 'KeyA':
-          gameRef.current.setInput({ left: false });
-          break;
-        case 'ArrowRight':
-        case 'KeyD':
-          gameRef.current.setInput({ right: false });
-          break;
-        case 'ArrowUp':
-        case 'KeyW':
-          gameRef.current.setInput({ up: false });
-          break;
-        case 'ArrowDown':
-        case 'KeyS':
-          gameRef.current.setInput({ down: false });
-          break;
-        case 'Space':
-          gameRef.current.setInput({ shoot: false });
-          break;
-      }
+      if (e.target instanceof HTMLInputElement) return;
+      controllerRef.current?.keyUp(e.code);
+    };
+    // フォーカスを失ったら自動で一時停止（裏で tick が進んだり巨大な dt が入ったりしないように）
+    const onBlur = () => {
+      controllerRef.current?.releaseAll();
+      gameRef.current?.pause();
+    };
+    const onPageHide = () => {
+      if (gameRef.current) saveSession(gameRef.current);
+    };
+    const onVisibilityChange = () => {
+      if (!document.hidden) return;
+      onBlur();
+      onPageHide();
     };
     window.addEventListener('keydown', onKeyDown);
     window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', onBlur);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    window.addEventListener('pagehide', onPageHide);
     return () => {
       window.removeEventListener('keydown', onKeyDown);
       window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', onBlur);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      window.removeEventListener('pagehide', onPageHide);
     };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // ===== Canvas layout =====
+  useEffect(() => {
+    const stage = stageRef.current;
+    if (!stage) return;
+    const measure = () => {
+      availRef.current = { width: stage.clientWidth, height: stage.clientHeight };
+    };
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(stage);
+    return () => observer.disconnect();
   }, []);
 
   // ===== Pointer / Touch handling =====
+  // client 座標 → 論理座標。枠線を除いた canvas の表示領域（clientLeft / clientWidth）を基準にするので、
+  // どの表示モード・devicePixelRatio でも canvas 内の同じ位置を指す
   const getCanvasCoordinates = (clientX: number, clientY: number) => {
-    const rect = canvasRef.current?.getBoundingClientRect();
-    if (!rect) return null;
-    const x = ((clientX - rect.left) / rect.width) * GAME_WIDTH;
-    const y = ((clientY - rect.top) / rect.height) * GAME_HEIGHT;
-    return createVector2(x, y);
+    const canvas = canvasRef.current;
+    const g = gameRef.current;
+    if (!canvas || !g || !canvas.clientWidth || !canvas.clientHeight) return null;
+    const rect = canvas.getBoundingClientRect();
+    const box = { width: canvas.clientWidth, height: canvas.clientHeight };
+    return toPlayfield(clientX - rect.left - canvas.clientLeft, clientY - rect.top - canvas.clientTop, box, g);
   };
 
-  const handlePointerStart = (e: React.MouseEvent<HTMLCanvasElement> | React.TouchEvent<HTMLCanvasElement>) => {
-    if (!gameRef.current) return;
-    if (gameRef.current.gameState === 'gameOver') {
-      // restart
-      resetGame();
-      return;
-    }
-    let pos = null;
-    if ('touches' in e) {
-      if (e.touches.length === 0) return;
-      pos = getCanvasCoordinates(e.touches[0].clientX, e.touches[0].clientY);
-    } else {
-      pos = getCanvasCoordinates(e.clientX, e.clientY);
-    }
-    if (pos) {
-      gameRef.current.setInput({ touching: true, mousePos: pos, shoot: true });
-    }
+  // マウス：メニューのある画面ではクリックした項目を選ぶ（それ以外は射撃 + ポインター追跡）
+  const lastTouchRef = useRef(-Infinity);
+  const mouseIgnored = () => nowMs() - lastTouchRef.current < TOUCH_MOUSE_GUARD_MS;
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const pos = getCanvasCoordinates(e.clientX, e.clientY);
+    if (pos && !mouseIgnored()) controllerRef.current?.pointerDown(pos);
   };
-  const handlePointerMove = (e: React.MouseEvent<HTMLCanvasElement> | React.TouchEvent<HTMLCanvasElement>) => {
-    if (!gameRef.current) return;
-    let pos = null;
-    if ('touches' in e) {
-      if (e.touches.length === 0) return;
-      pos = getCanvasCoordinates(e.touches[0].clientX, e.touches[0].clientY);
-    } else {
-      pos = getCanvasCoordinates(e.clientX, e.clientY);
-    }
-    if (pos) {
-      gameRef.current.setInput({ mousePos: pos, touching: true });
-    }
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const pos = getCanvasCoordinates(e.clientX, e.clientY);
+    if (pos && !mouseIgnored()) controllerRef.current?.pointerMove(pos);
   };
-  const handlePointerEnd = () => {
-    if (!gameRef.current) return;
-    gameRef.current.setInput({ touching: false, shoot: false });
+  const handleMouseUp = () => {
+    controllerRef.current?.pointerUp();
+  };
+
+  // タッチ：変化した指ごとに identifier 付きで渡す（移動の指とボタンの指を同時に扱える）
+  const handleTouch = (e: React.TouchEvent<HTMLCanvasElement>) => {
+    const controller = controllerRef.current;
+    if (!controller) return;
+    lastTouchRef.current = nowMs();
+    for (let i = 0; i < e.changedTouches.length; i++) {
+      const t = e.changedTouches[i];
+      if (e.type === 'touchend' || e.type === 'touchcancel') {
+        controller.touchEnd(t.identifier);
+        continue;
+      }
+      const pos = getCanvasCoordinates(t.clientX, t.clientY);
+      if (!pos) continue;
+      if (e.type === 'touchstart') controller.touchStart(t.identifier, pos);
+      else controller.touchMove(t.identifier, pos);
+    }
   };
 
   return (
@@ -631,26 +607,35 @@ export default function SpaceShooterECS() {
       <div className="mb-4 text-center">
         <h1 className="text-3xl font-bold text-white mb-2">🚀 スペースシューター (ECS雛形)</h1>
         <div className="text-sm text-gray-300">
-          <p>WASD/矢印キー: 移動 | スペース/クリック: 射撃</p>
-          <p>マウス: ポインター追跡 | タッチ: 移動・射撃</p>
+          <p>WASD/矢印キー: 移動 | スペース/クリック: 射撃 | X: ボム</p>
+          <p>マウス: ポインター追跡 | タッチ: ドラッグで移動・画面のボタンで射撃/ボム | Esc/P: ポーズ | F3: デバッグ表示</p>
         </div>
       </div>
 
-      <canvas
-        ref={canvasRef}
-        width={GAME_WIDTH}
-        height={GAME_HEIGHT}
-        onMouseDown={handlePointerStart}
-        onMouseUp={handlePointerEnd}
-        onMouseMove={handlePointerMove}
-        onMouseLeave={handlePointerEnd}
-        onTouchStart={handlePointerStart}
-        onTouchMove={handlePointerMove}
-        onTouchEnd={handlePointerEnd}
-        tabIndex={0}
-        className="border-2 border-cyan-400 rounded-lg shadow-2xl cursor-crosshair touch-none focus:border-yellow-400 focus:outline-none bg-black"
-        style={{ maxWidth: '100%', height: 'auto', aspectRatio: `${GAME_WIDTH}/${GAME_HEIGHT}`, imageRendering: 'pixelated' }}
-      />
+      <div ref={stageRef} className="w-full flex items-center justify-center" style={{ height: '80vh' }}>
+        <div className="relative rounded-lg bg-black">
+          <canvas
+            ref={glCanvasRef}
+            aria-hidden
+            className={`absolute inset-0 block rounded-lg ${
+              settings.renderer === 'webgl' && !webglFailed ? '' : 'hidden'
+            }`}
+          />
+          <canvas
+            ref={canvasRef}
+            onMouseDown={handleMouseDown}
+            onMouseUp={handleMouseUp}
+            onMouseMove={handleMouseMove}
+            onMouseLeave={handleMouseUp}
+            onTouchStart={handleTouch}
+            onTouchMove={handleTouch}
+            onTouchEnd={handleTouch}
+            onTouchCancel={handleTouch}
+            tabIndex={0}
+            className="relative block rounded-lg shadow-2xl ring-2 ring-cyan-400 cursor-crosshair touch-none focus:ring-yellow-400 focus:outline-none"
+          />
+        </div>
+      </div>
 
       <div className="mt-4 text-center">
         <button
@@ -659,6 +644,324 @@ export default function SpaceShooterECS() {
         >
           🔄 ゲームリセット
         </button>
+        <div className="mt-3 flex justify-center gap-2">
+          <button
+            onClick={exportReplay}
+            className="px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded-lg"
+          >
+            💾 リプレイ保存
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded-lg"
+          >
+            📂 リプレイ読込
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={importReplay} />
+          <button
+            onClick={exportSnapshot}
+            className="px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded-lg"
+          >
+            📸 スナップショット保存
+          </button>
+          <button
+            onClick={() => snapshotInputRef.current?.click()}
+            className="px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded-lg"
+          >
+            📥 スナップショット読込
+          </button>
+          <input ref={snapshotInputRef} type="file" accept="application/json,.json" className="hidden" onChange={importSnapshot} />
+          <button
+            onClick={() => updateSettings({ reducedMotion: !settings.reducedMotion })}
+            className={`px-3 py-2 text-white text-sm rounded-lg ${settings.reducedMotion ? 'bg-cyan-700 hover:bg-cyan-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+          >
+            🌀 演出軽減: {settings.reducedMotion ? 'ON' : 'OFF'}
+          </button>
+          <button
+            onClick={() => updateSettings({ muted: !settings.muted })}
+            className={`px-3 py-2 text-white text-sm rounded-lg ${settings.muted ? 'bg-cyan-700 hover:bg-cyan-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+          >
+            {settings.muted ? '🔇 ミュート中' : '🔊 サウンド'}
+          </button>
+        </div>
+        <details className="mt-3 text-sm text-gray-200">
+          <summary className="cursor-pointer text-gray-300">🖥 表示</summary>
+          <div className="mt-2 p-3 bg-gray-800 rounded-lg flex flex-wrap justify-center items-center gap-3">
+            <label className="flex items-center gap-1">
+              画面比
+              <select
+                value={settings.playfield}
+                onChange={e => updateSettings({ playfield: e.target.value as PlayfieldName })}
+                className="px-1 py-0.5 rounded bg-gray-900 text-white border border-gray-600"
+              >
+                {(Object.keys(PLAYFIELDS) as PlayfieldName[]).map(name => (
+                  <option key={name} value={name}>
+                    {PLAYFIELDS[name].label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-1">
+              拡大
+              <select
+                value={settings.scaleMode}
+                onChange={e => updateSettings({ scaleMode: e.target.value as Settings['scaleMode'] })}
+                className="px-1 py-0.5 rounded bg-gray-900 text-white border border-gray-600"
+              >
+                {SCALE_MODES.map(mode => (
+                  <option key={mode} value={mode}>
+                    {SCALE_MODE_LABELS[mode]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-1">
+              描画
+              <select
+                value={settings.renderer}
+                onChange={e => updateSettings({ renderer: e.target.value as RendererKind })}
+                className="px-1 py-0.5 rounded bg-gray-900 text-white border border-gray-600"
+              >
+                {RENDERER_KINDS.map(kind => (
+                  <option key={kind} value={kind}>
+                    {RENDERER_LABELS[kind]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {webglFailed && settings.renderer === 'webgl' && (
+              <p className="w-full text-yellow-300">WebGL が使えないため Canvas2D で描画しています</p>
+            )}
+            <p className="w-full text-gray-400">画面比を変えると新しいゲームになります（オンラインランキングは標準のみ）</p>
+          </div>
+        </details>
+        <details className="mt-3 text-sm text-gray-200">
+          <summary className="cursor-pointer text-gray-300">🔊 音量</summary>
+          <div className="mt-2 p-3 bg-gray-800 rounded-lg flex flex-col items-center gap-2">
+            {VOLUME_SLIDERS.map(({ key, label }) => (
+              <label key={key} className="flex items-center gap-2">
+                <span className="w-16 text-left">{label}</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={settings[key]}
+                  onChange={e => updateSettings({ [key]: Number(e.target.value) })}
+                />
+                <span className="w-10 text-right font-mono">{Math.round(settings[key] * 100)}</span>
+              </label>
+            ))}
+          </div>
+        </details>
+        <details className="mt-3 text-sm text-gray-200">
+          <summary className="cursor-pointer text-gray-300">🎮 操作設定</summary>
+          <div className="mt-2 p-3 bg-gray-800 rounded-lg">
+            <table className="w-full mb-2">
+              <tbody>
+                {ACTIONS.map(action => (
+                  <tr key={action}>
+                    <td className="pr-2 text-left">{ACTION_LABELS[action]}</td>
+                    <td className="pr-2 text-left font-mono">{settings.keyBindings[action].map(keyLabel).join(' / ')}</td>
+                    <td>
+                      <button
+                        onClick={() => startRebind(action)}
+                        className={`px-2 py-1 rounded text-white ${rebinding === action ? 'bg-yellow-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+                      >
+                        {rebinding === action ? 'キーを押す…' : '変更'}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="flex flex-wrap justify-center items-center gap-3">
+              <label className="flex items-center gap-1">
+                <input type="checkbox" checked={settings.autoFire} onChange={e => updateSettings({ autoFire: e.target.checked })} />
+                オート連射
+              </label>
+              <label className="flex items-center gap-1">
+                デッドゾーン
+                <input
+                  type="range"
+                  min={0}
+                  max={0.9}
+                  step={0.05}
+                  value={settings.deadzone}
+                  onChange={e => updateSettings({ deadzone: Number(e.target.value) })}
+                />
+                {settings.deadzone.toFixed(2)}
+              </label>
+              <button
+                onClick={() => updateSettings({ keyBindings: DEFAULT_SETTINGS.keyBindings })}
+                className="px-2 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded"
+              >
+                既定に戻す
+              </button>
+            </div>
+            <div className="mt-3 flex flex-wrap justify-center items-center gap-3">
+              <label className="flex items-center gap-1">
+                タッチ操作
+                <select
+                  value={settings.touchScheme}
+                  onChange={e => updateSettings({ touchScheme: e.target.value as Settings['touchScheme'] })}
+                  className="px-1 py-0.5 rounded bg-gray-900 text-white border border-gray-600"
+                >
+                  {TOUCH_SCHEMES.map(scheme => (
+                    <option key={scheme} value={scheme}>
+                      {TOUCH_SCHEME_LABELS[scheme]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {settings.touchScheme === 'drag' && (
+                <label className="flex items-center gap-1">
+                  感度
+                  <input
+                    type="range"
+                    min={0.5}
+                    max={3}
+                    step={0.1}
+                    value={settings.touchSensitivity}
+                    onChange={e => updateSettings({ touchSensitivity: Number(e.target.value) })}
+                  />
+                  {settings.touchSensitivity.toFixed(1)}x
+                </label>
+              )}
+              {settings.touchScheme !== 'joystick' && (
+                <label className="flex items-center gap-1">
+                  {settings.touchScheme === 'drag' ? '上へのずれ' : '指からの距離'}
+                  <input
+                    type="range"
+                    min={0}
+                    max={120}
+                    step={4}
+                    value={settings.touchOffset}
+                    onChange={e => updateSettings({ touchOffset: Number(e.target.value) })}
+                  />
+                  {settings.touchOffset}px
+                </label>
+              )}
+              <label className="flex items-center gap-1">
+                <input type="checkbox" checked={settings.vibration} onChange={e => updateSettings({ vibration: e.target.checked })} />
+                振動
+              </label>
+            </div>
+            <p className="mt-2 text-gray-400">ゲームパッド: 左スティック / 十字キーで移動、A・RT で射撃、B・LT でボム、START でポーズ</p>
+          </div>
+        </details>
+        {replaying && (
+          <div className="mt-3 flex justify-center gap-2 text-sm">
+            <button
+              onClick={() => setReplayControl(!replayPaused, replaySpeed)}
+              className="px-3 py-2 bg-pink-700 hover:bg-pink-600 text-white rounded-lg"
+            >
+              {replayPaused ? '▶ 再生' : '⏸ 一時停止'}
+            </button>
+            <button onClick={stepReplayFrame} className="px-3 py-2 bg-pink-700 hover:bg-pink-600 text-white rounded-lg">
+              ⏭ 1フレーム
+            </button>
+            {[1, 2, 4].map(sp => (
+              <button
+                key={sp}
+                onClick={() => setReplayControl(replayPaused, sp)}
+                className={`px-3 py-2 text-white rounded-lg ${replaySpeed === sp ? 'bg-pink-500' : 'bg-gray-700 hover:bg-gray-600'}`}
+              >
+                {sp}x
+              </button>
+            ))}
+            <button onClick={resetGame} className="px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg">
+              ✖ 終了
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="mt-4 w-full max-w-xs text-sm text-gray-200">
+        {pendingEntry && (
+          <form onSubmit={submitHighScore} className="mb-3 p-3 bg-gray-800 rounded-lg text-center">
+            <p className="mb-2 text-yellow-300 font-bold">🎉 スコア {pendingEntry.score} 点！ 名前を入力</p>
+            <div className="flex gap-2">
+              <input
+                value={entryName}
+                onChange={e => setEntryName(e.target.value)}
+                maxLength={HIGH_SCORE_NAME_MAX}
+                placeholder="PLAYER"
+                autoFocus
+                className="flex-1 px-2 py-1 rounded bg-gray-900 text-white border border-gray-600"
+              />
+              <button type="submit" className="px-3 py-1 bg-yellow-600 hover:bg-yellow-500 text-white rounded">
+                登録
+              </button>
+              <button type="button" onClick={() => setPendingEntry(null)} className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded">
+                スキップ
+              </button>
+            </div>
+            <label className="mt-2 flex items-center justify-center gap-1 text-gray-300">
+              <input type="checkbox" checked={submitOnline} onChange={e => setSubmitOnline(e.target.checked)} />
+              オンラインランキングにも送信（リプレイで検証）
+            </label>
+          </form>
+        )}
+        <h2 className="mb-1 font-bold text-white text-center">🏆 ハイスコア</h2>
+        {highScores.length === 0 ? (
+          <p className="text-center text-gray-400">まだ記録がありません</p>
+        ) : (
+          <table className="w-full">
+            <tbody>
+              {highScores.map((e, i) => (
+                <tr key={`${e.date}-${i}`} className={i === lastRank ? 'text-yellow-300' : ''}>
+                  <td className="pr-2 text-right">{i + 1}.</td>
+                  <td className="pr-2 truncate">{e.name}</td>
+                  <td className="pr-2 text-right font-mono">{e.score}</td>
+                  <td className="pr-2 text-gray-400">ST{e.stage}</td>
+                  <td className="text-gray-400" title={`seed ${e.seed}`}>
+                    {new Date(e.date).toLocaleDateString()}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <div className="mt-2 flex justify-center gap-2">
+          <button onClick={exportHighScores} className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded-lg">
+            💾 書き出し
+          </button>
+          <button onClick={() => scoreFileInputRef.current?.click()} className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded-lg">
+            📂 読み込み
+          </button>
+          <input ref={scoreFileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={importHighScores} />
+        </div>
+
+        <h2 className="mt-4 mb-1 font-bold text-white text-center">🌐 オンラインランキング</h2>
+        <div className="mb-2 flex justify-center gap-2">
+          {LEADERBOARD_MODES.map(mode => (
+            <button
+              key={mode}
+              onClick={() => loadOnlineBoard(mode)}
+              className={`px-3 py-1 text-white rounded-lg ${onlineMode === mode ? 'bg-cyan-700' : 'bg-gray-700 hover:bg-gray-600'}`}
+            >
+              {MODE_LABELS[mode]}
+            </button>
+          ))}
+        </div>
+        {onlineStatus && <p className="mb-1 text-center text-cyan-300">{onlineStatus}</p>}
+        {onlineBoard && onlineBoard.entries.length > 0 ? (
+          <table className="w-full">
+            <tbody>
+              {onlineBoard.entries.map(e => (
+                <tr key={e.id}>
+                  <td className="pr-2 text-right">{e.rank}.</td>
+                  <td className="pr-2 truncate">{e.name}</td>
+                  <td className="pr-2 text-right font-mono">{e.score}</td>
+                  <td className="text-gray-400">ST{e.stage}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="text-center text-gray-400">まだ記録がありません</p>
+        )}
       </div>
     </div>
   );
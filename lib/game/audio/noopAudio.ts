@@ -0,0 +1,10 @@
+import type { AudioEngine } from './types';
+
+// 何も鳴らさない AudioEngine（Node でのヘッドレス実行・リプレイ検証の既定値）
+export class NoopAudio implements AudioEngine {
+  play() {}
+  playMusic() {}
+  setVolumes() {}
+  suspend() {}
+  resume() {}
+}
@@ -0,0 +1,16 @@
+import type { MusicName } from '../data/music';
+import type { SoundName } from '../data/sounds';
+import type { Settings } from '../settings';
+
+export type AudioVolumes = Pick<Settings, 'masterVolume' | 'sfxVolume' | 'musicVolume' | 'muted'>;
+
+// 音の出力先。Game は鳴らしたい音を名前で伝えるだけで、再生方法は知らない。
+// 同じ曲・同じ音量・同じ停止状態の指示は何度来ても無視すること（Game は毎フレーム同期する）
+export interface AudioEngine {
+  play(sound: SoundName): void;
+  // null で停止
+  playMusic(track: MusicName | null): void;
+  setVolumes(volumes: AudioVolumes): void;
+  suspend(): void;
+  resume(): void;
+}
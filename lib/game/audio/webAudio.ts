@@ -0,0 +1,178 @@
+import { midiToHz, MUSIC, type MusicName } from '../data/music';
+import { SOUNDS, type SoundLayer, type SoundName } from '../data/sounds';
+import type { AudioEngine, AudioVolumes } from './types';
+
+// BGM の先読み：SCHEDULE_MS ごとに LOOKAHEAD_S 先までの音符を予約する
+const SCHEDULE_MS = 25;
+const LOOKAHEAD_S = 0.1;
+// 音量変更のなめらかさ（setTargetAtTime の時定数）
+const VOLUME_SMOOTHING_S = 0.02;
+
+// ====== Web Audio 実装 ======
+// 効果音も BGM もオシレーター / ノイズで合成する（音声ファイルは使わない）。
+// master ← sfx / music の 2 系統。ブラウザはユーザー操作の中でしか音を出させないので、
+// 最初のキー入力やタップで unlock() を呼んでもらう
+export class WebAudioEngine implements AudioEngine {
+  private ctx: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private sfxBus: GainNode | null = null;
+  private musicBus: GainNode | null = null;
+  private noise: AudioBuffer | null = null;
+
+  private volumes: AudioVolumes = { masterVolume: 1, sfxVolume: 1, musicVolume: 1, muted: false };
+  private suspended = false;
+  private lastPlayed = new Map<SoundName, number>();
+
+  // BGM の再生位置（step は 8 分音符単位、nextStepAt は AudioContext の時刻）
+  private track: MusicName | null = null;
+  private step = 0;
+  private nextStepAt = 0;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  unlock() {
+    if (!this.ctx) {
+      const Ctor = typeof window !== 'undefined' ? window.AudioContext : undefined;
+      if (!Ctor) return;
+      const ctx = new Ctor();
+      this.ctx = ctx;
+      this.master = ctx.createGain();
+      this.master.connect(ctx.destination);
+      this.sfxBus = ctx.createGain();
+      this.sfxBus.connect(this.master);
+      this.musicBus = ctx.createGain();
+      this.musicBus.connect(this.master);
+      this.noise = createNoise(ctx);
+      this.applyVolumes();
+      this.startMusic();
+    }
+    if (!this.suspended && this.ctx.state === 'suspended') this.ctx.resume().catch(() => {});
+  }
+
+  play(sound: SoundName) {
+    const ctx = this.ctx;
+    if (!ctx || !this.sfxBus || this.suspended || ctx.state !== 'running') return;
+    const def = SOUNDS[sound];
+    const now = ctx.currentTime;
+    const last = this.lastPlayed.get(sound);
+    if (def.throttle && last !== undefined && (now - last) * 1000 < def.throttle) return;
+    this.lastPlayed.set(sound, now);
+    for (const layer of def.layers) this.voice(layer, now + (layer.delay ?? 0) / 1000, this.sfxBus);
+  }
+
+  playMusic(track: MusicName | null) {
+    if (track === this.track) return;
+    this.track = track;
+    this.startMusic();
+  }
+
+  setVolumes(volumes: AudioVolumes) {
+    const v = this.volumes;
+    if (
+      v.masterVolume === volumes.masterVolume &&
+      v.sfxVolume === volumes.sfxVolume &&
+      v.musicVolume === volumes.musicVolume &&
+      v.muted === volumes.muted
+    ) {
+      return;
+    }
+    const { masterVolume, sfxVolume, musicVolume, muted } = volumes;
+    this.volumes = { masterVolume, sfxVolume, musicVolume, muted };
+    this.applyVolumes();
+  }
+
+  suspend() {
+    if (this.suspended) return;
+    this.suspended = true;
+    this.ctx?.suspend().catch(() => {});
+  }
+
+  resume() {
+    if (!this.suspended) return;
+    this.suspended = false;
+    this.ctx?.resume().catch(() => {});
+  }
+
+  private applyVolumes() {
+    const ctx = this.ctx;
+    if (!ctx || !this.master || !this.sfxBus || !this.musicBus) return;
+    const v = this.volumes;
+    const now = ctx.currentTime;
+    this.master.gain.setTargetAtTime(v.muted ? 0 : v.masterVolume, now, VOLUME_SMOOTHING_S);
+    this.sfxBus.gain.setTargetAtTime(v.sfxVolume, now, VOLUME_SMOOTHING_S);
+    this.musicBus.gain.setTargetAtTime(v.musicVolume, now, VOLUME_SMOOTHING_S);
+  }
+
+  // 1 音：周波数を滑らせつつ指数減衰させる
+  private voice(layer: SoundLayer, when: number, bus: GainNode) {
+    const ctx = this.ctx!;
+    const duration = layer.duration / 1000;
+    const end = layer.endFreq ?? layer.freq;
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(0.0001, when);
+    gain.gain.exponentialRampToValueAtTime(layer.volume, when + 0.005);
+    gain.gain.exponentialRampToValueAtTime(0.0001, when + duration);
+    gain.connect(bus);
+
+    let source: AudioScheduledSourceNode;
+    if (layer.wave === 'noise') {
+      const src = ctx.createBufferSource();
+      src.buffer = this.noise;
+      src.loop = true;
+      const filter = ctx.createBiquadFilter();
+      filter.type = 'bandpass';
+      filter.frequency.setValueAtTime(layer.freq, when);
+      filter.frequency.exponentialRampToValueAtTime(end, when + duration);
+      src.connect(filter);
+      filter.connect(gain);
+      source = src;
+    } else {
+      const osc = ctx.createOscillator();
+      osc.type = layer.wave;
+      osc.frequency.setValueAtTime(layer.freq, when);
+      osc.frequency.exponentialRampToValueAtTime(end, when + duration);
+      osc.connect(gain);
+      source = osc;
+    }
+    source.onended = () => gain.disconnect();
+    source.start(when);
+    source.stop(when + duration + 0.01);
+  }
+
+  // ===== BGM（先読みスケジューラ） =====
+  private startMusic() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    const ctx = this.ctx;
+    if (!ctx || !this.track) return;
+    this.step = 0;
+    this.nextStepAt = ctx.currentTime + 0.05;
+    this.timer = setInterval(() => this.scheduleMusic(), SCHEDULE_MS);
+  }
+
+  private scheduleMusic() {
+    const ctx = this.ctx;
+    if (!ctx || !this.musicBus || !this.track) return;
+    const track = MUSIC[this.track];
+    const stepS = 60 / track.bpm / 2;
+    // タブが裏に回って遅れたときは追いつこうとせず今から鳴らし直す
+    if (this.nextStepAt < ctx.currentTime - stepS) this.nextStepAt = ctx.currentTime;
+    while (this.nextStepAt < ctx.currentTime + LOOKAHEAD_S) {
+      for (const voice of track.voices) {
+        const note = voice.notes[this.step % voice.notes.length];
+        if (!note) continue;
+        const freq = midiToHz(note);
+        this.voice({ wave: voice.wave, freq, duration: stepS * 900, volume: voice.volume }, this.nextStepAt, this.musicBus);
+      }
+      this.step++;
+      this.nextStepAt += stepS;
+    }
+  }
+}
+
+// 1 秒分のホワイトノイズ（ループして使い回す）
+function createNoise(ctx: AudioContext) {
+  const buffer = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+  return buffer;
+}
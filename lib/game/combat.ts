@@ -0,0 +1,173 @@
+import { Boss, BossPart, Bullet, Enemy, Health, Player, Position, Velocity, Weapon } from './components';
+import {
+  BOMB_DAMAGE,
+  BOMB_INVULN_TICKS,
+  BOMB_STOCK,
+  CONTINUE_TICKS,
+  HIT_FLASH_MS,
+  PLAYER_INVULN_TICKS,
+  PLAYER_START_HP,
+} from './constants';
+import { getBossDef } from './data/bosses';
+import { getEnemyDef } from './data/enemies';
+import { PICKUP_DROP_CHANCE } from './data/pickups';
+import { WEAPON_LEVEL_LOSS } from './data/weapons';
+import { defineQuery, type Entity } from './ecs';
+import type { Game } from './game';
+import { dropPickup } from './pickups';
+import { spawnEnemy } from './prefabs';
+
+const BOSS_PART_QUERY = defineQuery(BossPart);
+const BULLET_POSITION_QUERY = defineQuery(Bullet, Position);
+const HEALTH_POSITION_QUERY = defineQuery(Health, Position);
+const PLAYER_QUERY = defineQuery(Player);
+const PLAYER_WEAPON_POSITION_QUERY = defineQuery(Player, Weapon, Position);
+
+// ====== ダメージ / 撃破処理 ======
+// 状態を変えてイベントを emit するだけ。演出と効果音は feedback.ts が購読して出す
+
+// プレイヤーの被弾。無敵中は無視（false を返す）。シールドがあれば肩代わり、
+// 無ければ HP とウェポン level を失う。どちらも無敵時間が付く。HP が尽きたら gameOver（コンティニュー待ち）
+export function damagePlayer(game: Game, amount: number) {
+  const player = game.select(PLAYER_WEAPON_POSITION_QUERY)[0];
+  if (!player) return false;
+  const info = player.get(Player)!;
+  const pos = player.get(Position)!;
+  if (info.invuln > 0 || info.health <= 0) return false;
+  if (info.shield > 0) {
+    info.shield--;
+    info.invuln = PLAYER_INVULN_TICKS / 2;
+    game.events.emit('playerHit', { x: pos.x, y: pos.y, health: info.health, shielded: true });
+    return true;
+  }
+  const weapon = player.get(Weapon)!;
+  weapon.level = Math.max(1, weapon.level - WEAPON_LEVEL_LOSS);
+  info.health = Math.max(0, info.health - amount);
+  info.invuln = PLAYER_INVULN_TICKS;
+  game.events.emit('playerHit', { x: pos.x, y: pos.y, health: info.health, shielded: false });
+  game.events.emit('healthChanged', { health: info.health });
+  if (info.health <= 0) {
+    game.setState('gameOver');
+    game.continueTimer = CONTINUE_TICKS;
+    game.continueArmed = false;
+    game.events.emit('playerDied', { x: pos.x, y: pos.y });
+  }
+  return true;
+}
+
+// 敵弾をすべて消す（ボム・コンティニュー時）
+function clearEnemyBullets(game: Game) {
+  for (const b of game.select(BULLET_POSITION_QUERY)) {
+    if (b.get(Bullet)!.owner !== 'enemy') continue;
+    const pos = b.get(Position)!;
+    game.events.emit('bulletCancelled', { x: pos.x, y: pos.y });
+    game.destroyEntity(b);
+  }
+}
+
+// ボム：敵弾を消し、画面内の敵すべてに BOMB_DAMAGE、しばらく無敵。残数が無ければ false
+export function fireBomb(game: Game, player: Entity) {
+  const info = player.get(Player)!;
+  if (info.bombs <= 0) return false;
+  info.bombs--;
+  info.invuln = Math.max(info.invuln, BOMB_INVULN_TICKS);
+  clearEnemyBullets(game);
+  for (const e of game.select(HEALTH_POSITION_QUERY)) {
+    const pos = e.get(Position)!;
+    if (pos.x < 0 || pos.x > game.width || pos.y < 0 || pos.y > game.height) continue;
+    damageEnemy(game, e, BOMB_DAMAGE);
+  }
+  const pos = player.get(Position)!;
+  game.events.emit('bombUsed', { x: pos.x, y: pos.y, bombs: info.bombs });
+  return true;
+}
+
+// コンティニュー：HP とボムを戻して同じ場面から再開する（スコアはそのまま、回数を数える）
+export function continueGame(game: Game) {
+  const player = game.select(PLAYER_QUERY)[0];
+  if (!player || game.gameState !== 'gameOver' || game.continueTimer <= 0) return false;
+  const info = player.get(Player)!;
+  info.health = PLAYER_START_HP;
+  info.bombs = BOMB_STOCK;
+  info.shield = 0;
+  info.invuln = PLAYER_INVULN_TICKS * 2;
+  info.bombHeld = true;
+  clearEnemyBullets(game);
+  game.setState(game.stage.cleared ? 'stageClear' : 'playing');
+  game.continueTimer = 0;
+  game.continues++;
+  game.events.emit('healthChanged', { health: info.health });
+  game.events.emit('continued', { continues: game.continues });
+  return true;
+}
+
+// 登場中のボス（とその部位）は無敵
+function isInvulnerable(game: Game, e: Entity) {
+  const part = e.get(BossPart);
+  const boss = part ? game.getEntity(part.boss) : e;
+  return !!boss?.get(Boss)?.entering;
+}
+
+// damageEnemy の結果。blocked: ダメージが入らなかった（無敵・破棄済み）、hit: 削ったが生きている、killed: 撃破
+export type DamageResult = 'blocked' | 'hit' | 'killed';
+
+// 敵（ボス本体・部位を含む）にダメージを与え、HP が尽きたら撃破する
+export function damageEnemy(game: Game, enemy: Entity, amount: number): DamageResult {
+  const health = enemy.get(Health);
+  if (!health || !enemy.alive || isInvulnerable(game, enemy)) return 'blocked';
+  health.hp -= amount;
+  health.flash = HIT_FLASH_MS;
+  if (health.hp > 0) return 'hit';
+  if (enemy.has(Boss)) defeatBoss(game, enemy);
+  else if (enemy.has(BossPart)) destroyBossPart(game, enemy);
+  else killEnemy(game, enemy);
+  return 'killed';
+}
+
+// ボス撃破：ボーナス加算、残っている部位ごと破棄
+export function defeatBoss(game: Game, boss: Entity) {
+  const pos = boss.get(Position)!;
+  const type = boss.get(Boss)!.type;
+  const score = getBossDef(type).score;
+  game.addScore(score);
+  game.destroyEntity(boss);
+  game.events.emit('enemyKilled', { kind: 'boss', type, x: pos.x, y: pos.y, score });
+  dropPickup(game, pos.x - 20, pos.y);
+  dropPickup(game, pos.x + 20, pos.y);
+  for (const part of game.select(BOSS_PART_QUERY)) {
+    if (part.get(BossPart)!.boss === boss.id) game.destroyEntity(part);
+  }
+}
+
+export function destroyBossPart(game: Game, part: Entity) {
+  const info = part.get(BossPart)!;
+  const boss = game.getEntity(info.boss);
+  const type = boss ? boss.get(Boss)!.type : '';
+  const score = boss ? getBossDef(type).parts[info.index].score : 0;
+  game.addScore(score);
+  game.destroyEntity(part);
+  const pos = part.get(Position)!;
+  game.events.emit('enemyKilled', { kind: 'bossPart', type, x: pos.x, y: pos.y, score });
+  dropPickup(game, pos.x, pos.y);
+}
+
+// スコア加算・爆発・ドロップ・分裂・破棄
+export function killEnemy(game: Game, enemy: Entity) {
+  const info = enemy.get(Enemy)!;
+  const def = getEnemyDef(info.type);
+  const pos = enemy.get(Position)!;
+  game.addScore(def.score);
+  game.destroyEntity(enemy);
+  game.events.emit('enemyKilled', { kind: 'enemy', type: info.type, x: pos.x, y: pos.y, score: def.score });
+  if (game.rng.next() < PICKUP_DROP_CHANCE) dropPickup(game, pos.x, pos.y);
+
+  if (def.splitInto) {
+    const { type, count } = def.splitInto;
+    for (let i = 0; i < count; i++) {
+      const child = spawnEnemy(game, type, pos.x, pos.y);
+      // 扇状に散らす
+      const vel = child.get(Velocity)!;
+      vel.x = (i - (count - 1) / 2) * 1.2;
+    }
+  }
+}
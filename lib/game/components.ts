@@ -0,0 +1,94 @@
+import { defineComponent } from './ecs';
+import type { ParticleShape } from './data/particles';
+import type { PickupKind } from './data/pickups';
+import type { BulletKind, WeaponType } from './data/weapons';
+import { createVector2, type Vec2 } from './math';
+
+// ====== コンポーネント定義 ======
+// 見た目。sprite: アトラスの frame / animation 名（無い・読めていなければ color と size でベクター描画）、
+// rotation: ラジアン（0 = 素材のまま上向き）、scale / alpha: 既定 1、layer: 小さいほど奥（RenderLayer）
+export type RenderInfo = {
+  color: string;
+  size: number;
+  sprite?: string;
+  rotation?: number;
+  scale?: number;
+  alpha?: number;
+  layer?: number;
+};
+
+// 描画順（同じ layer は生成順）
+export const RenderLayer = {
+  BACKGROUND: 0,
+  PLAYER: 10,
+  PICKUP: 20,
+  BULLET: 30,
+  ENEMY: 40,
+  BOSS: 50,
+  BOSS_PART: 55,
+  PARTICLE: 60,
+} as const;
+// プレイヤーの状態（HP はここが唯一の正）。shield: 被弾を肩代わりできる残り回数、
+// invuln: 無敵の残り tick、bombs: ボムの残数、bombHeld: ボム入力の押しっぱなし判定用
+export type PlayerInfo = { health: number; shield: number; invuln: number; bombs: number; bombHeld: boolean };
+// kind: 描画の形、pierce: 貫通、turnRate: 追尾性能 (rad / tick)
+export type BulletInfo = {
+  owner: 'player' | 'enemy';
+  damage: number;
+  kind?: BulletKind;
+  pierce?: boolean;
+  turnRate?: number;
+};
+export type WeaponInfo = { type: WeaponType; level: number };
+export type PickupInfo = { kind: PickupKind };
+// 演出用パーティクル。life: 寿命の初期値 (ms、Lifetime と比べて薄くする)、angle / spin: 破片の回転
+export type ParticleInfo = { shape: ParticleShape; life: number; drag: number; angle: number; spin: number };
+// t: 出現からの tick 数、originX: 揺れの中心、diving: 急降下中か
+export type EnemyInfo = { type: string; t: number; originX: number; diving: boolean };
+// flash: 被弾時の白フラッシュ残り時間 (ms)
+export type HealthInfo = { hp: number; maxHp: number; flash: number };
+// 弾幕パターンの発射状態。timer: 次の volley まで (tick)、angle: spin の累積 (度)、burstLeft: 連射の残り
+export type EmitterInfo = { pattern: string; timer: number; angle: number; burstLeft: number };
+// ボス本体。phase: 現在の phase 番号、t: 戦闘開始からの tick、entering: 登場中（無敵）
+export type BossInfo = { type: string; phase: number; t: number; originX: number; entering: boolean };
+// ボスの部位。boss: 本体の entity id（世代付きなので本体が消えれば getEntity で引けない）、index: BossDef.parts 内の位置
+export type BossPartInfo = { boss: number; index: number };
+export type StarInfo = { brightness: number };
+export type LifetimeInfo = { t: number };
+// 当たり判定（描画サイズとは独立）。layer / mask は physics/layers の Layer ビット
+export type ColliderInfo = ({ kind: 'circle'; r: number } | { kind: 'aabb'; w: number; h: number }) & {
+  layer: number;
+  mask: number;
+};
+export type InputState = {
+  left: boolean;
+  right: boolean;
+  up: boolean;
+  down: boolean;
+  shoot: boolean;
+  bomb: boolean;
+  // アナログスティック (-1..1、デッドゾーン適用済み)。0 でなければキー入力より優先
+  axisX: number;
+  axisY: number;
+  touching: boolean;
+  mousePos: Vec2;
+};
+
+// 第 2 引数があるものは頻繁に生成・破棄されるので、部品をプールして Entity.attach で使い回す
+export const Position = defineComponent<Vec2>('position', () => createVector2());
+export const Velocity = defineComponent<Vec2>('velocity', () => createVector2());
+export const Render = defineComponent<RenderInfo>('render', () => ({ color: '#fff', size: 1 }));
+export const Player = defineComponent<PlayerInfo>('player');
+export const Bullet = defineComponent<BulletInfo>('bullet', () => ({ owner: 'enemy', damage: 1 }));
+export const Weapon = defineComponent<WeaponInfo>('weapon');
+export const Pickup = defineComponent<PickupInfo>('pickup', () => ({ kind: 'spread' }));
+export const Particle = defineComponent<ParticleInfo>('particle');
+export const Enemy = defineComponent<EnemyInfo>('enemy', () => ({ type: '', t: 0, originX: 0, diving: false }));
+export const Health = defineComponent<HealthInfo>('health', () => ({ hp: 1, maxHp: 1, flash: 0 }));
+export const Emitter = defineComponent<EmitterInfo>('emitter', () => ({ pattern: '', timer: 0, angle: 0, burstLeft: 0 }));
+export const Boss = defineComponent<BossInfo>('boss');
+export const BossPart = defineComponent<BossPartInfo>('bossPart');
+export const Star = defineComponent<StarInfo>('star');
+export const Input = defineComponent<InputState>('input');
+export const Lifetime = defineComponent<LifetimeInfo>('lifetime', () => ({ t: 0 }));
+export const Collider = defineComponent<ColliderInfo>('collider', () => ({ kind: 'circle', r: 1, layer: 0, mask: 0 }));
@@ -0,0 +1,39 @@
+// ====== 定数 ======
+export const GAME_WIDTH = 320;
+export const GAME_HEIGHT = 568;
+export const PLAYER_SIZE = 20;
+export const PLAYER_SPEED = 4.5;
+// 当たり判定は見た目より小さい（中心付近だけ）
+export const PLAYER_HITBOX_RADIUS = 4;
+export const PLAYER_START_HP = 3;
+export const PLAYER_MAX_HP = 5;
+// 被弾後の無敵時間 (tick)。シールドで防いだときはこの半分
+export const PLAYER_INVULN_TICKS = 120;
+export const BOMB_STOCK = 3;
+export const BOMB_DAMAGE = 20;
+export const BOMB_INVULN_TICKS = 90;
+// ゲームオーバー後のコンティニュー受付 (tick)
+export const CONTINUE_TICKS = 600;
+export const PICKUP_SIZE = 14;
+export const PICKUP_FALL_SPEED = 1;
+export const BULLET_SIZE = 4;
+export const BULLET_SPEED = 7;
+export const ENEMY_SIZE = 16;
+export const STAR_COUNT = 50;
+export const BULLET_FIRE_RATE = 120; // ms
+export const HIT_FLASH_MS = 80;
+export const MAX_PARTICLES = 400; // 同時に存在できるパーティクル数（プールの上限）
+export const REDUCED_MOTION_PARTICLES = 0.25; // reducedMotion 時の個数倍率
+export const SHAKE_MAX = 12; // px
+export const SHAKE_DECAY = 0.03; // px / ms
+export const DAMAGE_FLASH_MS = 250;
+// ステージ開始 / クリア表示の長さ (tick)
+export const STAGE_BANNER_TICKS = 120;
+export const STAGE_CLEAR_TICKS = 180;
+// ボス出現前の WARNING 表示 (tick)
+export const BOSS_WARNING_TICKS = 150;
+
+// 固定タイムステップ：1 tick = 60Hz の 1 フレーム。速度は「px / tick」で表す
+export const FIXED_DT_MS = 1000 / 60;
+// タブ復帰直後などの巨大な dt で tick を大量消化しないための上限
+export const MAX_FRAME_MS = 250;
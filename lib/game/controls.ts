@@ -0,0 +1,84 @@
+// ====== 操作の割り当て（アクションマッピング） ======
+// キー（KeyboardEvent.code）とゲームパッドのボタンを「アクション」に変換する。
+// キーボードの割り当ては設定に保存して変更できる（非 QWERTY 配列向け）
+
+export const ACTIONS = ['left', 'right', 'up', 'down', 'fire', 'bomb', 'pause'] as const;
+export type Action = (typeof ACTIONS)[number];
+
+export const ACTION_LABELS: Record<Action, string> = {
+  left: '左',
+  right: '右',
+  up: '上',
+  down: '下',
+  fire: '射撃 / 決定',
+  bomb: 'ボム',
+  pause: 'ポーズ',
+};
+
+export type KeyBindings = Record<Action, string[]>;
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  left: ['ArrowLeft', 'KeyA'],
+  right: ['ArrowRight', 'KeyD'],
+  up: ['ArrowUp', 'KeyW'],
+  down: ['ArrowDown', 'KeyS'],
+  fire: ['Space', 'KeyZ', 'Enter'],
+  bomb: ['KeyX'],
+  pause: ['Escape', 'KeyP'],
+};
+
+// 標準マッピング (https://w3c.github.io/gamepad/#remapping) のボタン番号
+export const GAMEPAD_BUTTONS: Record<Action, number[]> = {
+  left: [14],
+  right: [15],
+  up: [12],
+  down: [13],
+  fire: [0, 7], // A / RT
+  bomb: [1, 6], // B / LT
+  pause: [9], // START
+};
+
+export const cloneBindings = (bindings: KeyBindings): KeyBindings =>
+  Object.fromEntries(ACTIONS.map(a => [a, [...bindings[a]]])) as KeyBindings;
+
+export function actionForKey(bindings: KeyBindings, code: string): Action | null {
+  for (const action of ACTIONS) if (bindings[action].includes(code)) return action;
+  return null;
+}
+
+// action に code を割り当てる。他のアクションに付いていた同じキーは外す
+export function rebind(bindings: KeyBindings, action: Action, code: string): KeyBindings {
+  const next = cloneBindings(bindings);
+  for (const a of ACTIONS) next[a] = next[a].filter(c => c !== code);
+  next[action] = [code];
+  return next;
+}
+
+// 保存済みの割り当てを検証する。足りないアクションは既定値で埋める
+export function parseKeyBindings(raw: unknown): KeyBindings {
+  const bindings = cloneBindings(DEFAULT_KEY_BINDINGS);
+  if (!raw || typeof raw !== 'object') return bindings;
+  const r = raw as Record<string, unknown>;
+  for (const action of ACTIONS) {
+    const codes = r[action];
+    if (Array.isArray(codes) && codes.length && codes.every(c => typeof c === 'string')) bindings[action] = [...codes];
+  }
+  return bindings;
+}
+
+// 表示用のキー名（'KeyA' → 'A'、'ArrowUp' → '↑'）
+const ARROW_LABELS: Record<string, string> = { ArrowUp: '↑', ArrowDown: '↓', ArrowLeft: '←', ArrowRight: '→' };
+export const keyLabel = (code: string) => ARROW_LABELS[code] ?? code.replace(/^(Key|Digit)/, '');
+
+// ====== アナログスティック ======
+// 円形のデッドゾーン：半径 deadzone 未満は 0、外側は 0..1 に詰め直す。
+// 記録される入力が毎フレーム変わらないよう 1/STICK_STEPS 単位に丸める
+export const STICK_STEPS = 20;
+
+export function applyDeadzone(x: number, y: number, deadzone: number): { x: number; y: number } {
+  const mag = Math.hypot(x, y);
+  if (mag < deadzone || mag === 0) return { x: 0, y: 0 };
+  const scaled = Math.min(1, (mag - deadzone) / (1 - deadzone));
+  const q = (v: number) => Math.round(((v / mag) * scaled) * STICK_STEPS) / STICK_STEPS;
+  return { x: q(x) || 0, y: q(y) || 0 };
+}
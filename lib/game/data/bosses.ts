@@ -0,0 +1,102 @@
+// ====== ボス定義 ======
+// phases は HP 比率で切り替わる。hpBelow 以下になった最後の phase が現在の phase
+
+export type BossPhaseDef = {
+  hpBelow: number; // 0〜1
+  pattern: string; // 本体が撃つ弾幕（data/patterns）
+  // 横移動：中心から amplitude px、period tick で 1 往復（0 なら静止）
+  amplitude: number;
+  period: number;
+};
+
+// 本体に付く壊せる部位。offset は本体中心からの相対位置
+export type BossPartDef = {
+  name: string;
+  offset: { x: number; y: number };
+  w: number;
+  h: number;
+  hp: number;
+  color: string;
+  score: number;
+  pattern?: string;
+};
+
+export type BossDef = {
+  name: string;
+  hp: number;
+  w: number;
+  h: number;
+  color: string;
+  score: number;
+  entryY: number; // ここまで降りてきたら戦闘開始（それまでは無敵）
+  entrySpeed: number;
+  phases: BossPhaseDef[];
+  parts: BossPartDef[];
+};
+
+export const BOSS_DEFS: Record<string, BossDef> = {
+  sentinel: {
+    name: 'SENTINEL',
+    hp: 120,
+    w: 80,
+    h: 40,
+    color: '#cc3333',
+    score: 10000,
+    entryY: 110,
+    entrySpeed: 0.8,
+    phases: [
+      { hpBelow: 1, pattern: 'spread5', amplitude: 60, period: 360 },
+      { hpBelow: 0.6, pattern: 'ring16', amplitude: 90, period: 240 },
+      { hpBelow: 0.3, pattern: 'spiral', amplitude: 0, period: 0 },
+    ],
+    parts: [
+      { name: 'left-gun', offset: { x: -50, y: 6 }, w: 18, h: 22, hp: 25, color: '#ff8844', score: 1000, pattern: 'aimed' },
+      { name: 'right-gun', offset: { x: 50, y: 6 }, w: 18, h: 22, hp: 25, color: '#ff8844', score: 1000, pattern: 'aimed' },
+    ],
+  },
+  hydra: {
+    name: 'HYDRA',
+    hp: 200,
+    w: 100,
+    h: 44,
+    color: '#22aa77',
+    score: 20000,
+    entryY: 120,
+    entrySpeed: 0.7,
+    phases: [
+      { hpBelow: 1, pattern: 'spread3', amplitude: 70, period: 300 },
+      { hpBelow: 0.5, pattern: 'spiral', amplitude: 40, period: 200 },
+      { hpBelow: 0.2, pattern: 'ring16', amplitude: 100, period: 150 },
+    ],
+    parts: [
+      { name: 'head-left', offset: { x: -44, y: 24 }, w: 16, h: 16, hp: 30, color: '#66ffaa', score: 1500, pattern: 'aimedBurst' },
+      { name: 'head-center', offset: { x: 0, y: 30 }, w: 18, h: 18, hp: 40, color: '#66ffaa', score: 2000, pattern: 'ring8' },
+      { name: 'head-right', offset: { x: 44, y: 24 }, w: 16, h: 16, hp: 30, color: '#66ffaa', score: 1500, pattern: 'aimedBurst' },
+    ],
+  },
+  overlord: {
+    name: 'OVERLORD',
+    hp: 320,
+    w: 120,
+    h: 56,
+    color: '#7744cc',
+    score: 40000,
+    entryY: 130,
+    entrySpeed: 0.6,
+    phases: [
+      { hpBelow: 1, pattern: 'ring16', amplitude: 50, period: 360 },
+      { hpBelow: 0.66, pattern: 'spiral', amplitude: 0, period: 0 },
+      { hpBelow: 0.33, pattern: 'spread5', amplitude: 110, period: 160 },
+    ],
+    parts: [
+      { name: 'wing-left', offset: { x: -68, y: 0 }, w: 20, h: 40, hp: 50, color: '#aa88ff', score: 2500, pattern: 'spread3' },
+      { name: 'wing-right', offset: { x: 68, y: 0 }, w: 20, h: 40, hp: 50, color: '#aa88ff', score: 2500, pattern: 'spread3' },
+      { name: 'eye', offset: { x: 0, y: 34 }, w: 14, h: 14, hp: 60, color: '#ffee66', score: 5000, pattern: 'aimedBurst' },
+    ],
+  },
+};
+
+export const getBossDef = (type: string) => {
+  if (!Object.prototype.hasOwnProperty.call(BOSS_DEFS, type)) throw new Error(`unknown boss type "${type}"`);
+  return BOSS_DEFS[type];
+};
@@ -0,0 +1,83 @@
+// ====== 敵定義テーブル ======
+// 数値を変えるだけで調整できるようにデータとして持つ。速度は px / tick
+
+export type EnemyMovement =
+  // まっすぐ降りてくる
+  | { kind: 'straight' }
+  // 出現位置を中心に左右へ揺れながら降りる（amplitude: px, period: tick）
+  | { kind: 'sine'; amplitude: number; period: number }
+  // diveY まで降りたらプレイヤーへ向きを変えて加速し、turnRate (rad / tick) で追尾する
+  | { kind: 'dive'; diveY: number; diveSpeed: number; turnRate: number };
+
+export type EnemyDef = {
+  hp: number;
+  speed: number;
+  size: number;
+  color: string;
+  score: number;
+  movement: EnemyMovement;
+  // 弾幕パターン名（data/patterns）。無ければ撃たない
+  pattern?: string;
+  // 倒されたときに分裂して出す敵
+  splitInto?: { type: string; count: number };
+};
+
+export const ENEMY_DEFS: Record<string, EnemyDef> = {
+  basic: {
+    hp: 1,
+    speed: 1.5,
+    size: 16,
+    color: '#ff4444',
+    score: 100,
+    movement: { kind: 'straight' },
+  },
+  sine: {
+    hp: 2,
+    speed: 1.2,
+    size: 16,
+    color: '#ff44ff',
+    score: 150,
+    movement: { kind: 'sine', amplitude: 40, period: 120 },
+    pattern: 'aimed',
+  },
+  diver: {
+    hp: 2,
+    speed: 1,
+    size: 14,
+    color: '#ffaa00',
+    score: 200,
+    movement: { kind: 'dive', diveY: 140, diveSpeed: 3.5, turnRate: 0.03 },
+  },
+  tank: {
+    hp: 10,
+    speed: 0.6,
+    size: 30,
+    color: '#aa66ff',
+    score: 500,
+    movement: { kind: 'straight' },
+    pattern: 'ring8',
+  },
+  splitter: {
+    hp: 4,
+    speed: 1,
+    size: 22,
+    color: '#44ddff',
+    score: 250,
+    movement: { kind: 'straight' },
+    pattern: 'spread3',
+    splitInto: { type: 'shard', count: 3 },
+  },
+  shard: {
+    hp: 1,
+    speed: 2,
+    size: 10,
+    color: '#88eeff',
+    score: 50,
+    movement: { kind: 'sine', amplitude: 20, period: 60 },
+  },
+};
+
+export const getEnemyDef = (type: string) => {
+  if (!Object.prototype.hasOwnProperty.call(ENEMY_DEFS, type)) throw new Error(`unknown enemy type "${type}"`);
+  return ENEMY_DEFS[type];
+};
@@ -0,0 +1,46 @@
+import type { Waveform } from './sounds';
+
+// ====== BGM 定義 ======
+// 1 step = 8 分音符。音は MIDI ノート番号、0 は休符。
+// bass / lead はそれぞれの長さでループする（長さが違えば組み合わせがずれていく）
+
+export type MusicVoice = {
+  wave: Exclude<Waveform, 'noise'>;
+  volume: number; // 0..1
+  notes: number[];
+};
+
+export type MusicTrack = {
+  bpm: number;
+  voices: MusicVoice[];
+};
+
+export type MusicName = 'stage' | 'boss';
+
+export const MUSIC: Record<MusicName, MusicTrack> = {
+  // 道中（A マイナー）
+  stage: {
+    bpm: 140,
+    voices: [
+      { wave: 'triangle', volume: 0.35, notes: [45, 45, 57, 45, 45, 45, 57, 45, 41, 41, 53, 41, 43, 43, 55, 43] },
+      {
+        wave: 'square',
+        volume: 0.1,
+        notes: [
+          69, 0, 72, 0, 76, 0, 74, 72, 69, 0, 67, 0, 65, 0, 67, 0,
+          69, 0, 72, 0, 76, 0, 79, 77, 76, 0, 74, 0, 72, 0, 71, 0,
+        ],
+      },
+    ],
+  },
+  // ボス戦（WARNING から流す）
+  boss: {
+    bpm: 160,
+    voices: [
+      { wave: 'sawtooth', volume: 0.2, notes: [40, 40, 52, 40, 40, 40, 51, 40, 40, 40, 52, 40, 41, 41, 53, 41] },
+      { wave: 'square', volume: 0.1, notes: [64, 0, 0, 67, 0, 0, 70, 0, 69, 0, 67, 0, 64, 0, 63, 0] },
+    ],
+  },
+};
+
+export const midiToHz = (note: number) => 440 * Math.pow(2, (note - 69) / 12);
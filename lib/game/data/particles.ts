@@ -0,0 +1,104 @@
+// ====== パーティクル（演出）定義 ======
+// 1 回の burst で count 個を spread 度の扇に散らす。direction は度数（0 = 右, 90 = 真下）、
+// 省略時は spawn 側が渡した向き（無ければ全周）。speed / size / life は [min, max] から抽選
+
+export type ParticleShape = 'dot' | 'spark' | 'debris';
+
+export type ParticleBurstDef = {
+  count: number;
+  shape: ParticleShape;
+  colors: string[];
+  spread: number; // 360 なら全周
+  direction?: number;
+  speed: [number, number]; // px / tick
+  size: [number, number];
+  life: [number, number]; // ms
+  drag: number; // 1 tick ごとに速度に掛ける係数
+};
+
+export const PARTICLE_BURSTS: Record<string, ParticleBurstDef> = {
+  // 雑魚撃破
+  explosion: {
+    count: 14,
+    shape: 'dot',
+    colors: ['#ffee66', '#ff9933', '#ff4422'],
+    spread: 360,
+    speed: [0.6, 2.8],
+    size: [2, 5],
+    life: [250, 550],
+    drag: 0.92,
+  },
+  // ボス撃破
+  bigExplosion: {
+    count: 48,
+    shape: 'dot',
+    colors: ['#ffffff', '#ffee66', '#ff9933', '#ff4422'],
+    spread: 360,
+    speed: [1, 5],
+    size: [3, 8],
+    life: [400, 1000],
+    drag: 0.94,
+  },
+  // 被弾の火花
+  sparks: {
+    count: 4,
+    shape: 'spark',
+    colors: ['#ffffaa', '#ffffff'],
+    spread: 360,
+    speed: [1.5, 3.5],
+    size: [1, 2],
+    life: [80, 180],
+    drag: 0.85,
+  },
+  // 自機被弾
+  playerHit: {
+    count: 12,
+    shape: 'spark',
+    colors: ['#ff3355', '#ffffff'],
+    spread: 360,
+    speed: [2, 4.5],
+    size: [1, 2],
+    life: [150, 300],
+    drag: 0.88,
+  },
+  // ボムの衝撃波
+  bomb: {
+    count: 40,
+    shape: 'spark',
+    colors: ['#ffffff', '#88ffff'],
+    spread: 360,
+    speed: [5, 8],
+    size: [2, 3],
+    life: [300, 500],
+    drag: 0.96,
+  },
+  // 破片（ボス部位・大型機）
+  debris: {
+    count: 8,
+    shape: 'debris',
+    colors: ['#888888', '#bbbbbb', '#664422'],
+    spread: 360,
+    speed: [0.8, 2.5],
+    size: [2, 4],
+    life: [600, 1100],
+    drag: 0.97,
+  },
+  // エンジンの噴射炎
+  trail: {
+    count: 1,
+    shape: 'dot',
+    colors: ['#ff6600', '#ffaa33'],
+    spread: 30,
+    direction: 90,
+    speed: [1, 2],
+    size: [1.5, 3],
+    life: [100, 220],
+    drag: 0.9,
+  },
+};
+
+export const getParticleBurst = (name: string) => {
+  const def = PARTICLE_BURSTS[name];
+  if (!def) throw new Error(`Unknown particle burst: ${name}`);
+  return def;
+};
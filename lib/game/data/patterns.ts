@@ -0,0 +1,55 @@
+// ====== 弾幕パターン定義 ======
+// 1 回の発射（volley）で count 発を arc 度の扇に等間隔で撃つ。
+// 向き direction は度数（0 = 右, 90 = 真下）か 'player'（自機狙い）。
+// spin を与えると volley ごとに向きが回転する（渦巻き）。
+// 新しいパターンはここにデータを足すだけでよい
+
+export type BulletStyle = { size: number; color: string; damage: number };
+
+export type BulletPatternDef = {
+  interval: number; // volley 間隔 (tick)
+  delay?: number; // 初回までの待ち (tick)
+  count: number;
+  arc: number; // 360 なら全周
+  direction: number | 'player';
+  spin?: number; // volley ごとの回転量 (度)
+  speed: number; // px / tick
+  // 1 回の volley を複数連射に分ける（burst 発を burstGap tick 間隔で）
+  burst?: number;
+  burstGap?: number;
+  bullet?: Partial<BulletStyle>;
+};
+
+export const DEFAULT_BULLET_STYLE: BulletStyle = { size: 6, color: '#ff66cc', damage: 1 };
+
+export const BULLET_PATTERNS: Record<string, BulletPatternDef> = {
+  aimed: { interval: 90, delay: 40, count: 1, arc: 0, direction: 'player', speed: 2.5 },
+  aimedBurst: {
+    interval: 120,
+    delay: 30,
+    count: 1,
+    arc: 0,
+    direction: 'player',
+    speed: 3,
+    burst: 3,
+    burstGap: 6,
+  },
+  spread3: { interval: 100, delay: 50, count: 3, arc: 40, direction: 'player', speed: 2.2 },
+  spread5: { interval: 110, delay: 50, count: 5, arc: 70, direction: 90, speed: 2 },
+  ring8: { interval: 120, delay: 60, count: 8, arc: 360, direction: 90, speed: 1.6, bullet: { color: '#cc88ff' } },
+  ring16: { interval: 90, count: 16, arc: 360, direction: 90, speed: 1.8, bullet: { color: '#cc88ff' } },
+  spiral: {
+    interval: 6,
+    count: 2,
+    arc: 360,
+    direction: 90,
+    spin: 13,
+    speed: 2,
+    bullet: { size: 5, color: '#66ddff' },
+  },
+};
+
+export const getBulletPattern = (name: string) => {
+  if (!Object.prototype.hasOwnProperty.call(BULLET_PATTERNS, name)) throw new Error(`unknown bullet pattern "${name}"`);
+  return BULLET_PATTERNS[name];
+};
@@ -0,0 +1,22 @@
+import type { WeaponType } from './weapons';
+
+// ====== アイテム定義 ======
+export type PickupKind = Exclude<WeaponType, 'normal'> | 'shield' | 'life';
+
+export type PickupDef = {
+  label: string; // カプセルに書く 1 文字
+  color: string;
+  weight: number; // ドロップ抽選の重み
+};
+
+export const PICKUP_DEFS: Record<PickupKind, PickupDef> = {
+  spread: { label: 'S', color: '#66ff66', weight: 4 },
+  rapid: { label: 'R', color: '#66ccff', weight: 4 },
+  laser: { label: 'L', color: '#ff66ff', weight: 3 },
+  homing: { label: 'H', color: '#ffaa33', weight: 3 },
+  shield: { label: 'B', color: '#aaaaff', weight: 2 },
+  life: { label: '♥', color: '#ff0066', weight: 1 },
+};
+
+// 雑魚を倒したときのドロップ率（ボス部位・ボスは必ず落とす）
+export const PICKUP_DROP_CHANCE = 0.1;
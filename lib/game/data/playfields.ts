@@ -0,0 +1,26 @@
+import { GAME_HEIGHT, GAME_WIDTH } from '../constants';
+
+// ====== 論理プレイフィールド ======
+// シミュレーションの座標系の大きさ。敵の出現位置や画面外判定が変わるので、
+// 変えると新しいランになる（オンラインランキングは portrait のみ）
+
+export type PlayfieldName = 'portrait' | 'tall' | 'classic' | 'landscape';
+
+export type PlayfieldDef = {
+  label: string;
+  width: number;
+  height: number;
+};
+
+export const PLAYFIELDS: Record<PlayfieldName, PlayfieldDef> = {
+  portrait: { label: '縦 9:16（標準）', width: GAME_WIDTH, height: GAME_HEIGHT },
+  tall: { label: '縦 9:19.5', width: 320, height: 693 },
+  classic: { label: '縦 3:4', width: 384, height: 512 },
+  landscape: { label: '横 16:9', width: 640, height: 360 },
+};
+
+export const isPlayfieldName = (v: unknown): v is PlayfieldName => typeof v === 'string' && Object.prototype.hasOwnProperty.call(PLAYFIELDS, v);
+
+// リプレイなどに書かれた大きさとして受け付ける範囲
+export const PLAYFIELD_MIN = 160;
+export const PLAYFIELD_MAX = 1280;
@@ -0,0 +1,76 @@
+// ====== 効果音定義 ======
+// 1 つの効果音は発音（layer）の重ね合わせ。各 layer は freq → endFreq へ周波数を滑らせながら
+// duration ms で減衰する。noise はホワイトノイズを freq 中心のバンドパスに通したもの
+
+export type Waveform = 'sine' | 'square' | 'sawtooth' | 'triangle' | 'noise';
+
+export type SoundLayer = {
+  wave: Waveform;
+  freq: number; // Hz
+  endFreq?: number; // 省略時は freq のまま
+  duration: number; // ms
+  volume: number; // 0..1
+  delay?: number; // 鳴らし始めるまで (ms)。アルペジオ用
+};
+
+export type SoundDef = {
+  layers: SoundLayer[];
+  // 同じ音を続けて鳴らさない間隔 (ms)。連射や同時撃破で音が割れないように
+  throttle?: number;
+};
+
+// 短いアルペジオ（notes は Hz、step ms 間隔）
+const arpeggio = (wave: Waveform, notes: number[], step: number, duration: number, volume: number): SoundLayer[] =>
+  notes.map((freq, i) => ({ wave, freq, duration, volume, delay: i * step }));
+
+export type SoundName =
+  | 'shot'
+  | 'hit'
+  | 'explosion'
+  | 'bigExplosion'
+  | 'playerHit'
+  | 'shieldHit'
+  | 'pickup'
+  | 'bomb'
+  | 'warning'
+  | 'stageClear'
+  | 'gameOver'
+  | 'cursor'
+  | 'select';
+
+export const SOUNDS: Record<SoundName, SoundDef> = {
+  shot: { layers: [{ wave: 'square', freq: 880, endFreq: 440, duration: 60, volume: 0.12 }], throttle: 50 },
+  hit: { layers: [{ wave: 'triangle', freq: 300, endFreq: 180, duration: 40, volume: 0.15 }], throttle: 40 },
+  explosion: {
+    layers: [
+      { wave: 'noise', freq: 900, endFreq: 200, duration: 280, volume: 0.4 },
+      { wave: 'square', freq: 160, endFreq: 50, duration: 200, volume: 0.15 },
+    ],
+    throttle: 30,
+  },
+  bigExplosion: {
+    layers: [
+      { wave: 'noise', freq: 600, endFreq: 80, duration: 900, volume: 0.6 },
+      { wave: 'sawtooth', freq: 120, endFreq: 30, duration: 800, volume: 0.25 },
+    ],
+  },
+  playerHit: {
+    layers: [
+      { wave: 'sawtooth', freq: 440, endFreq: 110, duration: 300, volume: 0.3 },
+      { wave: 'noise', freq: 1500, endFreq: 400, duration: 200, volume: 0.3 },
+    ],
+  },
+  shieldHit: { layers: [{ wave: 'triangle', freq: 1200, endFreq: 600, duration: 180, volume: 0.25 }] },
+  pickup: { layers: arpeggio('square', [660, 880, 1320], 50, 90, 0.15) },
+  bomb: {
+    layers: [
+      { wave: 'noise', freq: 300, endFreq: 60, duration: 1200, volume: 0.7 },
+      { wave: 'sine', freq: 90, endFreq: 30, duration: 1000, volume: 0.5 },
+    ],
+  },
+  warning: { layers: arpeggio('square', [440, 330, 440, 330], 250, 220, 0.18) },
+  stageClear: { layers: arpeggio('square', [523, 659, 784, 1047], 110, 260, 0.18) },
+  gameOver: { layers: arpeggio('triangle', [392, 330, 262, 196], 220, 400, 0.3) },
+  cursor: { layers: [{ wave: 'square', freq: 1000, duration: 30, volume: 0.08 }] },
+  select: { layers: arpeggio('square', [880, 1320], 40, 60, 0.1) },
+};
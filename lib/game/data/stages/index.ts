@@ -0,0 +1,68 @@
+import { BOSS_DEFS } from '../bosses';
+import { ENEMY_DEFS } from '../enemies';
+import stage1 from './stage1.json';
+import stage2 from './stage2.json';
+import stage3 from './stage3.json';
+
+// ====== ステージ定義フォーマット ======
+// waves は上から順に、前の wave の開始から delay tick 後に始まる。
+// waitClear の wave は、それまでの敵が全滅するまで待ってから delay を数え始める
+
+export type Formation = 'line' | 'column' | 'v' | 'random';
+export type Entry = 'top' | 'left' | 'right';
+
+export type WaveDef = {
+  delay: number;
+  waitClear?: boolean;
+  enemy: string;
+  count: number;
+  formation: Formation;
+  x?: number; // 編隊中心の横位置（0〜1、画面幅比）。entry: top のとき
+  y?: number; // 出現高さ（0〜1、画面高比）。entry: left / right のとき
+  spacing?: number; // 隊員同士の間隔 (px)
+  interval?: number; // 隊員を 1 体ずつ出す間隔 (tick)。0 なら同時
+  entry?: Entry;
+};
+
+export type StageDef = {
+  id: string;
+  name: string;
+  clearBonus: number;
+  waves: WaveDef[];
+  // 全 wave を倒した後に出るボス（data/bosses）
+  boss?: string;
+};
+
+const FORMATIONS: Formation[] = ['line', 'column', 'v', 'random'];
+const ENTRIES: Entry[] = ['top', 'left', 'right'];
+const OPTIONAL_NUMBERS = ['x', 'y', 'spacing', 'interval'] as const;
+
+const hasOwn = (table: object, key: unknown) => typeof key === 'string' && Object.prototype.hasOwnProperty.call(table, key);
+
+// JSON のステージ定義を検証する（不正なら例外）
+export const parseStage = (data: unknown): StageDef => {
+  const s = data as StageDef;
+  if (!s || typeof s !== 'object' || typeof s.id !== 'string' || !Array.isArray(s.waves)) {
+    throw new Error('ステージ形式が不正です');
+  }
+  s.waves.forEach((w, i) => {
+    const where = `${s.id} wave ${i}`;
+    if (typeof w.delay !== 'number' || w.delay < 0) throw new Error(`${where}: delay が不正です`);
+    if (!hasOwn(ENEMY_DEFS, w.enemy)) throw new Error(`${where}: 未知の敵 "${w.enemy}"`);
+    if (typeof w.count !== 'number' || w.count < 1) throw new Error(`${where}: count が不正です`);
+    if (!FORMATIONS.includes(w.formation)) throw new Error(`${where}: 未知の formation "${w.formation}"`);
+    if (w.entry && !ENTRIES.includes(w.entry)) throw new Error(`${where}: 未知の entry "${w.entry}"`);
+    const badNumber = OPTIONAL_NUMBERS.find(key => w[key] !== undefined && !Number.isFinite(w[key]));
+    if (badNumber) throw new Error(`${where}: ${badNumber} が不正です`);
+  });
+  if (s.boss !== undefined && !hasOwn(BOSS_DEFS, s.boss)) throw new Error(`${s.id}: 未知のボス "${s.boss}"`);
+  return {
+    id: s.id,
+    name: typeof s.name === 'string' ? s.name : s.id,
+    clearBonus: typeof s.clearBonus === 'number' ? s.clearBonus : 0,
+    waves: s.waves.map(w => ({ ...w })),
+    boss: s.boss,
+  };
+};
+
+export const STAGES: StageDef[] = [stage1, stage2, stage3].map(parseStage);
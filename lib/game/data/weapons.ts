@@ -0,0 +1,109 @@
+import { BULLET_FIRE_RATE, BULLET_SIZE, BULLET_SPEED } from '../constants';
+
+// ====== 自機ウェポン定義 ======
+// 各ウェポンは level (1〜MAX_WEAPON_LEVEL) ごとに発射間隔と 1 回分の弾を返す
+
+export type WeaponType = 'normal' | 'spread' | 'rapid' | 'laser' | 'homing';
+export type BulletKind = 'shot' | 'laser' | 'missile';
+
+// 1 発分。angle は真上からのずれ（度、右が正）、dx は自機中心からの横ずれ (px)
+export type ShotDef = {
+  angle: number;
+  dx: number;
+  speed: number;
+  damage: number;
+  size: number;
+  color: string;
+  kind: BulletKind;
+  pierce?: boolean; // 貫通（当たっても消えない）
+  turnRate?: number; // 追尾（rad / tick）
+};
+
+export type WeaponDef = {
+  name: string;
+  color: string;
+  fireRate: (level: number) => number; // ms
+  volley: (level: number) => ShotDef[];
+};
+
+export const MAX_WEAPON_LEVEL = 5;
+// 被弾で失う level
+export const WEAPON_LEVEL_LOSS = 2;
+
+const shot = (angle: number, dx: number, color = '#ffff00', damage = 1): ShotDef => ({
+  angle,
+  dx,
+  speed: BULLET_SPEED,
+  damage,
+  size: BULLET_SIZE,
+  color,
+  kind: 'shot',
+});
+
+// 横に並べた平行弾
+const parallel = (n: number, gap: number, color?: string) =>
+  Array.from({ length: n }, (_, i) => shot(0, (i - (n - 1) / 2) * gap, color));
+
+export const WEAPONS: Record<WeaponType, WeaponDef> = {
+  normal: {
+    name: 'NORMAL',
+    color: '#ffff00',
+    fireRate: () => BULLET_FIRE_RATE,
+    volley: level =>
+      level <= 3 ? parallel(level, 8) : [...parallel(3, 8), shot(-8, -6), shot(8, 6), ...(level >= 5 ? [shot(-16, -8), shot(16, 8)] : [])],
+  },
+  spread: {
+    name: 'SPREAD',
+    color: '#66ff66',
+    fireRate: () => 160,
+    volley: level => {
+      const n = 1 + level * 2;
+      const arc = 10 + level * 8;
+      return Array.from({ length: n }, (_, i) => shot(-arc / 2 + (arc / (n - 1)) * i, 0, '#66ff66'));
+    },
+  },
+  rapid: {
+    name: 'RAPID',
+    color: '#66ccff',
+    fireRate: level => 90 - level * 10,
+    volley: level => parallel(Math.ceil(level / 2), 10, '#66ccff'),
+  },
+  laser: {
+    name: 'LASER',
+    color: '#ff66ff',
+    fireRate: () => 40,
+    volley: level => [
+      {
+        angle: 0,
+        dx: 0,
+        speed: 14,
+        damage: 0.3 + level * 0.1,
+        size: 2 + level,
+        color: '#ff66ff',
+        kind: 'laser',
+        pierce: true,
+      },
+    ],
+  },
+  homing: {
+    name: 'HOMING',
+    color: '#ffaa33',
+    fireRate: () => 200,
+    volley: level => [
+      shot(0, 0, '#ffaa33'),
+      ...Array.from({ length: Math.min(4, level) }, (_, i): ShotDef => {
+        const side = i % 2 === 0 ? -1 : 1;
+        return {
+          angle: side * (30 + Math.floor(i / 2) * 20),
+          dx: side * 8,
+          speed: 4,
+          damage: 1.5,
+          size: 5,
+          color: '#ffaa33',
+          kind: 'missile',
+          turnRate: 0.08,
+        };
+      }),
+    ],
+  },
+};
@@ -0,0 +1,291 @@
+// ====== 型定義 / ECS基礎 ======
+
+// コンポーネントの型トークン。e.get(Position) が Vec2 を返すように T を運ぶ
+export type ComponentType<T> = {
+  readonly id: number;
+  readonly name: string;
+  // 部品の作り方。あれば外した / 破棄した部品を型ごとにプールして Entity.attach で使い回す
+  readonly create?: () => T;
+  // 型だけのマーカー（実行時には存在しない）
+  readonly __type?: T;
+};
+export type AnyComponentType = ComponentType<unknown>;
+export type PooledComponentType<T> = ComponentType<T> & { readonly create: () => T };
+export type ComponentOf<C> = C extends ComponentType<infer T> ? T : never;
+
+const registry = new Map<string, AnyComponentType>();
+// クエリのキーを id のビットで作るので、数値で正確に表せる 53 種類まで
+const MAX_COMPONENT_TYPES = 53;
+
+// コンポーネント定義。名前は一意（スナップショット等で名前から引くため）
+export function defineComponent<T>(name: string): ComponentType<T>;
+export function defineComponent<T>(name: string, create: () => T): PooledComponentType<T>;
+export function defineComponent<T>(name: string, create?: () => T): ComponentType<T> {
+  if (registry.has(name)) throw new Error(`component "${name}" is already defined`);
+  if (registry.size >= MAX_COMPONENT_TYPES) throw new Error(`component は ${MAX_COMPONENT_TYPES} 種類までです`);
+  const type: ComponentType<T> = { id: registry.size, name, create };
+  registry.set(name, type);
+  return type;
+}
+
+export const getComponentType = (name: string) => registry.get(name);
+
+// ====== Entity の id（世代付き handle） ======
+// id = 世代 × ENTITY_SLOTS + スロット番号。スロットと Entity オブジェクトは破棄後に使い回すが、
+// そのたびに世代を進めるので、古い id で world.getEntity(id) しても別の entity は返らない。
+// Entity オブジェクト自体も使い回すので、tick をまたいで覚えておくときは id を持つこと
+export const ENTITY_SLOTS = 2 ** 20;
+export const entitySlot = (id: number) => id % ENTITY_SLOTS;
+export const entityGeneration = (id: number) => Math.floor(id / ENTITY_SLOTS);
+
+export class Entity {
+  id: number;
+  // 生成順の通し番号（World.clear で 1 から）。スロットは使い回すので、順序が要る処理はこちらで比べる
+  seq = 0;
+  alive = false;
+  // 構造の変化が World の flush 待ち（World だけが読み書きする）
+  dirty = false;
+  readonly components: Map<AnyComponentType, unknown> = new Map();
+  constructor(
+    readonly slot: number,
+    private world: World,
+  ) {
+    this.id = slot;
+  }
+  add<T>(type: ComponentType<T>, comp: T) {
+    const prev = this.components.get(type);
+    this.components.set(type, comp);
+    if (prev === undefined) this.world.markDirty(this);
+    else if (prev !== comp) this.world.recycleComponent(type, prev);
+    return this;
+  }
+  // プールから部品を取り出して付ける（既に付いていればそれを返す）。
+  // 中身は前の持ち主の値のままなので、呼び出し側で全フィールドを書き直すこと
+  attach<T>(type: PooledComponentType<T>): T {
+    const cur = this.components.get(type) as T | undefined;
+    if (cur !== undefined) return cur;
+    const comp = this.world.takeComponent(type);
+    this.add(type, comp);
+    return comp;
+  }
+  // 外した部品はプールへ戻る（外した後で参照を持ち続けないこと）
+  remove(type: AnyComponentType) {
+    const comp = this.components.get(type);
+    if (comp === undefined) return this;
+    this.components.delete(type);
+    this.world.markDirty(this);
+    this.world.recycleComponent(type, comp);
+    return this;
+  }
+  get<T>(type: ComponentType<T>): T | undefined {
+    return this.components.get(type) as T | undefined;
+  }
+  has(type: AnyComponentType) {
+    return this.components.has(type);
+  }
+}
+
+// キャッシュ済みクエリ。構成の変化した entity だけを flush 時に出し入れする
+export class Query {
+  readonly entities: Entity[] = [];
+  private index: number[] = []; // entity のスロット -> entities 内の位置（-1 / undefined は外）
+  constructor(readonly types: readonly AnyComponentType[]) {}
+
+  matches(e: Entity) {
+    if (!e.alive) return false;
+    for (const t of this.types) if (!e.has(t)) return false;
+    return true;
+  }
+
+  sync(e: Entity) {
+    const i = this.index[e.slot];
+    const inside = i !== undefined && i >= 0;
+    const match = this.matches(e);
+    if (match && !inside) {
+      this.index[e.slot] = this.entities.length;
+      this.entities.push(e);
+    } else if (!match && inside) {
+      // swap-remove
+      const last = this.entities.pop()!;
+      if (last !== e) {
+        this.entities[i] = last;
+        this.index[last.slot] = i;
+      }
+      this.index[e.slot] = -1;
+    }
+  }
+
+  // 同じメンバーのまま並びだけを order に変える（スナップショットの復元用）。order は今のメンバーの並べ替えに限る
+  reorder(order: readonly Entity[]) {
+    if (
+      order.length !== this.entities.length ||
+      order.some((e, i) => this.entities[this.index[e.slot]] !== e || order.indexOf(e) !== i)
+    ) {
+      throw new Error('クエリの並びがメンバーと一致しません');
+    }
+    order.forEach((e, i) => {
+      this.entities[i] = e;
+      this.index[e.slot] = i;
+    });
+  }
+
+  clear() {
+    this.entities.length = 0;
+    this.index.length = 0;
+  }
+}
+
+const queryKey = (types: readonly AnyComponentType[]) => {
+  let key = 0;
+  for (let i = 0; i < types.length; i++) key += 2 ** types[i].id;
+  return key;
+};
+
+// 前もって作っておくクエリの指定。world.query(A, B) は呼ぶたびに rest 引数の配列を作るので、
+// 毎 tick / 毎フレーム引くものはモジュールの先頭で defineQuery しておき world.select で引く
+export type QueryDef = { readonly types: readonly AnyComponentType[]; readonly key: number };
+export const defineQuery = (...types: AnyComponentType[]): QueryDef => ({ types, key: queryKey(types) });
+
+// Entity の生成・破棄とクエリの管理。
+// 構造の変化（生成 / 破棄 / add / remove）は flush() でまとめてクエリへ反映するので、
+// system 実行中にクエリの配列が並び替わることはない（破棄済みは e.alive === false）。
+// 破棄した entity は flush でスロットごと空きに戻し、部品は型ごとのプールへ返す
+export class World {
+  private slots: Entity[] = [];
+  private freeSlots: number[] = []; // 末尾から使う
+  private nextSeq = 1;
+  private aliveCount = 0;
+  private queries = new Map<number, Query>(); // キー: 含む component id のビット
+  private queryList: Query[] = [];
+  private dirty: Entity[] = [];
+  private pools: unknown[][] = []; // component id -> 空き部品
+
+  createEntity() {
+    let e: Entity;
+    if (this.freeSlots.length) {
+      e = this.slots[this.freeSlots.pop()!];
+    } else {
+      if (this.slots.length >= ENTITY_SLOTS) throw new Error('entity が多すぎます');
+      e = new Entity(this.slots.length, this);
+      e.id += ENTITY_SLOTS; // 世代は 1 から（id 0 を作らない）
+      this.slots.push(e);
+    }
+    e.seq = this.nextSeq++;
+    e.alive = true;
+    this.aliveCount++;
+    this.markDirty(e);
+    return e;
+  }
+  destroyEntity(e: Entity) {
+    if (!e.alive) return;
+    e.alive = false;
+    this.markDirty(e);
+  }
+
+  // 生きている（または破棄が flush 待ちの）entity。古い世代の id なら undefined
+  getEntity(id: number): Entity | undefined {
+    const e = this.slots[entitySlot(id)];
+    return e && e.id === id ? e : undefined;
+  }
+
+  // 生きている entity の数
+  get entityCount() {
+    return this.aliveCount;
+  }
+
+  // 生きている entity を生成順に（生成直後で flush 前のものも含む）。毎フレーム呼ぶものではない
+  forEachEntity(visit: (e: Entity) => void) {
+    this.slots
+      .filter(e => e.alive)
+      .sort((a, b) => a.seq - b.seq)
+      .forEach(visit);
+  }
+
+  markDirty(e: Entity) {
+    if (e.dirty) return;
+    e.dirty = true;
+    this.dirty.push(e);
+  }
+
+  takeComponent<T>(type: PooledComponentType<T>): T {
+    const pool = this.pools[type.id];
+    return pool && pool.length ? (pool.pop() as T) : type.create();
+  }
+
+  recycleComponent(type: AnyComponentType, comp: unknown) {
+    if (!type.create) return;
+    (this.pools[type.id] ??= []).push(comp);
+  }
+
+  // 指定コンポーネントを全て持つ entity の一覧（同じ配列を使い回す）
+  query(...types: AnyComponentType[]): readonly Entity[] {
+    return this.getQuery(types).entities;
+  }
+
+  // defineQuery で作った指定で引く（配列を作らない）
+  select(def: QueryDef): readonly Entity[] {
+    return (this.queries.get(def.key) ?? this.getQuery(def.types, def.key)).entities;
+  }
+
+  private getQuery(types: readonly AnyComponentType[], key = queryKey(types)) {
+    let q = this.queries.get(key);
+    if (!q) {
+      q = new Query(types);
+      this.queries.set(key, q);
+      this.queryList.push(q);
+      // 生成順に入れる（スロット順だと使い回しの履歴で順番が変わる）
+      this.forEachEntity(q.sync.bind(q));
+    }
+    return q;
+  }
+
+  // 作成済みクエリの中身（swap-remove の履歴で生成順とは限らない）。
+  // system はこの並びで回るので、スナップショットはこれを保存して setQueryOrder で戻す
+  get cachedQueries(): readonly Query[] {
+    return this.queryList;
+  }
+
+  setQueryOrder(types: AnyComponentType[], order: readonly Entity[]) {
+    this.flush();
+    this.getQuery(types).reorder(order);
+  }
+
+  // 保留中の構造変化をクエリへ反映し、破棄された entity を片付ける
+  flush() {
+    const dirty = this.dirty;
+    if (!dirty.length) return;
+    for (let i = 0; i < dirty.length; i++) {
+      const e = dirty[i];
+      e.dirty = false;
+      for (const q of this.queryList) q.sync(e);
+      if (!e.alive) this.release(e);
+    }
+    dirty.length = 0;
+  }
+
+  clear() {
+    for (const e of this.slots) {
+      if (e.alive || e.dirty) this.release(e);
+      e.alive = false;
+      e.dirty = false;
+    }
+    this.dirty.length = 0;
+    this.queryList.forEach(q => q.clear());
+    // 空きスロットを 0 から順に使うように並べ直す
+    this.freeSlots.length = 0;
+    for (let i = this.slots.length - 1; i >= 0; i--) this.freeSlots.push(i);
+    this.aliveCount = 0;
+    this.nextSeq = 1;
+  }
+
+  // 部品をプールへ返し、世代を進めてスロットを空ける
+  private release(e: Entity) {
+    e.components.forEach(this.recycleEntry);
+    e.components.clear();
+    e.id += ENTITY_SLOTS;
+    this.freeSlots.push(e.slot);
+    this.aliveCount--;
+  }
+
+  private recycleEntry = (comp: unknown, type: AnyComponentType) => this.recycleComponent(type, comp);
+}
@@ -0,0 +1,37 @@
+import { DAMAGE_FLASH_MS, SHAKE_DECAY, SHAKE_MAX } from './constants';
+import type { Game } from './game';
+
+// ====== 画面演出（揺れ / ヒットストップ / 被弾フラッシュ） ======
+// どれも実時間 (ms) で減衰し、tick 数や入力には影響しない。リプレイの結果は設定に関係なく同じ
+
+export type ScreenEffects = {
+  shake: number; // 揺れ幅 (px)
+  hitStop: number; // シミュレーションを止める残り時間 (ms)
+  flash: number; // 赤フラッシュの残り時間 (ms)
+};
+
+export const createScreenEffects = (): ScreenEffects => ({ shake: 0, hitStop: 0, flash: 0 });
+
+export function shakeScreen(game: Game, amount: number) {
+  if (game.settings.reducedMotion) return;
+  game.fx.shake = Math.min(SHAKE_MAX, Math.max(game.fx.shake, amount));
+}
+
+export function hitStop(game: Game, ms: number) {
+  if (game.settings.reducedMotion) return;
+  game.fx.hitStop = Math.max(game.fx.hitStop, ms);
+}
+
+export function damageFlash(game: Game) {
+  if (game.settings.reducedMotion) return;
+  game.fx.flash = DAMAGE_FLASH_MS;
+}
+
+// 1 フレーム分 (ms) 演出を進める。ヒットストップで止まった時間を返す
+export function advanceEffects(fx: ScreenEffects, ms: number) {
+  const frozen = Math.min(fx.hitStop, ms);
+  fx.hitStop -= frozen;
+  fx.shake = Math.max(0, fx.shake - SHAKE_DECAY * ms);
+  fx.flash = Math.max(0, fx.flash - ms);
+  return frozen;
+}
@@ -0,0 +1,60 @@
+import type { PickupKind } from './data/pickups';
+import type { WeaponType } from './data/weapons';
+import type { MenuAction, GameState } from './states';
+
+// ====== ゲームイベント ======
+// シミュレーションは「何が起きたか」を emit するだけ。演出・効果音・HUD・React の state などは
+// これを購読して反応する（購読側はシミュレーションの状態を書き換えないこと）
+
+export type GameEvents = {
+  // reset で新しいランが始まった
+  runStarted: { seed: number };
+  // スナップショットからラン途中の状態に戻した
+  snapshotRestored: { seed: number; tick: number };
+  stateChanged: { from: GameState; to: GameState };
+  scoreChanged: { score: number; delta: number };
+  // プレイヤーは 1 回の斉射ごと、敵は 1 回の発射パターンごと
+  bulletFired: { owner: 'player' | 'enemy'; x: number; y: number; weapon?: WeaponType };
+  // 倒しきれなかった命中
+  enemyHit: { x: number; y: number };
+  enemyKilled: { kind: 'enemy' | 'bossPart' | 'boss'; type: string; x: number; y: number; score: number };
+  // shielded: シールドが肩代わりした（HP は減っていない）
+  playerHit: { x: number; y: number; health: number; shielded: boolean };
+  playerDied: { x: number; y: number };
+  // HP が増減した（被弾 / 回復 / コンティニュー / ラン開始）
+  healthChanged: { health: number };
+  bombUsed: { x: number; y: number; bombs: number };
+  // ボム・コンティニューで消えた敵弾 1 発
+  bulletCancelled: { x: number; y: number };
+  pickupCollected: { kind: PickupKind; x: number; y: number };
+  bossWarning: { stage: number };
+  stageCleared: { stage: number; bonus: number };
+  continued: { continues: number };
+  menuMoved: { index: number };
+  menuSelected: { action: MenuAction };
+};
+
+export type GameEventType = keyof GameEvents;
+type Handler<T> = (payload: T) => void;
+
+// 型付きの購読 / 発行。handler の配列は購読の増減時に作り直すので、emit 中に解除しても安全
+export class EventBus<E extends Record<string, unknown>> {
+  private handlers: { [K in keyof E]?: Handler<E[K]>[] } = {};
+
+  // 解除関数を返す
+  on<K extends keyof E>(type: K, handler: Handler<E[K]>) {
+    this.handlers[type] = [...(this.handlers[type] ?? []), handler];
+    return () => this.off(type, handler);
+  }
+
+  off<K extends keyof E>(type: K, handler: Handler<E[K]>) {
+    const list = this.handlers[type];
+    if (list) this.handlers[type] = list.filter(h => h !== handler);
+  }
+
+  emit<K extends keyof E>(type: K, payload: E[K]) {
+    const list = this.handlers[type];
+    if (!list) return;
+    for (const handler of list) handler(payload);
+  }
+}
@@ -0,0 +1,72 @@
+import { damageFlash, hitStop, shakeScreen } from './effects';
+import type { Game } from './game';
+import { spawnParticles } from './particles';
+
+// ====== イベント → 演出 / 効果音 ======
+// Game の生成時に 1 回だけ繋ぐ。どちらも fxRng と実時間の演出にしか触れないので、
+// 繋がなくても（ヘッドレス実行でも）シミュレーション結果は同じ
+
+// パーティクル / 画面の揺れ / ヒットストップ / 被弾フラッシュ
+export function connectEffects(game: Game) {
+  const { events } = game;
+  events.on('enemyHit', e => spawnParticles(game, 'sparks', e.x, e.y));
+  events.on('bulletCancelled', e => spawnParticles(game, 'sparks', e.x, e.y));
+  events.on('enemyKilled', e => {
+    switch (e.kind) {
+      case 'enemy':
+        spawnParticles(game, 'explosion', e.x, e.y);
+        shakeScreen(game, 2);
+        break;
+      case 'bossPart':
+        spawnParticles(game, 'explosion', e.x, e.y);
+        spawnParticles(game, 'debris', e.x, e.y);
+        shakeScreen(game, 5);
+        hitStop(game, 60);
+        break;
+      case 'boss':
+        spawnParticles(game, 'bigExplosion', e.x, e.y);
+        spawnParticles(game, 'debris', e.x, e.y);
+        shakeScreen(game, 12);
+        hitStop(game, 200);
+        break;
+    }
+  });
+  events.on('playerHit', e => {
+    if (e.shielded) {
+      spawnParticles(game, 'sparks', e.x, e.y);
+      shakeScreen(game, 3);
+      return;
+    }
+    spawnParticles(game, 'playerHit', e.x, e.y);
+    damageFlash(game);
+    shakeScreen(game, 6);
+    hitStop(game, 80);
+  });
+  events.on('playerDied', e => {
+    spawnParticles(game, 'bigExplosion', e.x, e.y);
+    shakeScreen(game, 10);
+  });
+  events.on('bombUsed', e => {
+    spawnParticles(game, 'bomb', e.x, e.y);
+    shakeScreen(game, 8);
+    hitStop(game, 120);
+  });
+}
+
+// 効果音（game.audio は後から差し替えられるので鳴らす時点のものを使う）
+export function connectAudio(game: Game) {
+  const { events } = game;
+  events.on('bulletFired', e => {
+    if (e.owner === 'player') game.audio.play('shot');
+  });
+  events.on('enemyHit', () => game.audio.play('hit'));
+  events.on('enemyKilled', e => game.audio.play(e.kind === 'boss' ? 'bigExplosion' : 'explosion'));
+  events.on('playerHit', e => game.audio.play(e.shielded ? 'shieldHit' : 'playerHit'));
+  events.on('playerDied', () => game.audio.play('gameOver'));
+  events.on('bombUsed', () => game.audio.play('bomb'));
+  events.on('pickupCollected', () => game.audio.play('pickup'));
+  events.on('bossWarning', () => game.audio.play('warning'));
+  events.on('stageCleared', () => game.audio.play('stageClear'));
+  events.on('menuMoved', () => game.audio.play('cursor'));
+  events.on('menuSelected', () => game.audio.play('select'));
+}
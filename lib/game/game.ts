@@ -0,0 +1,491 @@
+import { NoopAudio } from './audio/noopAudio';
+import type { AudioEngine } from './audio/types';
+import { Collider, Input, Player, Position, Render, RenderLayer, Star, Velocity, Weapon, type InputState } from './components';
+import {
+  BOMB_STOCK,
+  FIXED_DT_MS,
+  GAME_HEIGHT,
+  GAME_WIDTH,
+  MAX_FRAME_MS,
+  PLAYER_HITBOX_RADIUS,
+  PLAYER_SIZE,
+  PLAYER_START_HP,
+  STAR_COUNT,
+} from './constants';
+import type { MusicName } from './data/music';
+import { STAGES } from './data/stages';
+import { defineQuery, World } from './ecs';
+import { advanceEffects, createScreenEffects } from './effects';
+import { EventBus, type GameEvents } from './events';
+import { connectAudio, connectEffects } from './feedback';
+import { createVector2, setVector2, type Vec2 } from './math';
+import { ParticlePool } from './particles';
+import { Layer, setCircleCollider } from './physics';
+import { setRender } from './prefabs';
+import type { Renderer } from './render/types';
+import { cloneInput, REPLAY_VERSION, replayPlayfield, type InputChange, type Replay } from './replay';
+import { randomSeed, Rng } from './rng';
+import { restoreEntities, restoreStage, snapshotEntities, snapshotStage, SNAPSHOT_VERSION, type Snapshot } from './snapshot';
+import { StageRunner } from './stage';
+import { profileNow, Scheduler } from './scheduler';
+import { DEFAULT_SETTINGS, type Settings } from './settings';
+import { menuItemAt, STATE_DEFS, type GameState, type MenuAction } from './states';
+import { createDefaultSystems } from './systems';
+
+const INPUT_QUERY = defineQuery(Input);
+const PLAYER_QUERY = defineQuery(Player);
+
+// 一時停止時に流し込む「全部離した」入力
+const RELEASED_INPUT: Partial<InputState> = {
+  left: false,
+  right: false,
+  up: false,
+  down: false,
+  shoot: false,
+  bomb: false,
+  axisX: 0,
+  axisY: 0,
+  touching: false,
+};
+
+// ====== Game クラス（Entity 管理 & Systems 呼び出し） ======
+// DOM に依存しないシミュレーション本体。描画は Renderer に任せる
+export class Game extends World {
+  // UI 状態（変更は addScore 経由で scoreChanged を出す）
+  score = 0;
+
+  // ゲームイベント（演出・効果音・UI はここを購読する）
+  readonly events = new EventBus<GameEvents>();
+
+  // ステートマシン（遷移は setState 経由）。stateMs: 今の状態に入ってからの実時間、
+  // pausedFrom: 一時停止から戻る先、menuIndex: メニューの選択位置
+  private state: GameState = 'playing';
+  pausedFrom: GameState = 'playing';
+  stateMs = 0;
+  menuIndex = 0;
+  // loading 画面の進み具合 (0..1)
+  loadProgress = 0;
+
+  // コンティニュー：gameOver 後の受付残り tick（0 なら締め切り）と使った回数。
+  // continueArmed は死亡時に押しっぱなしだった射撃ボタンを一度離したか
+  continueTimer = 0;
+  continues = 0;
+  continueArmed = false;
+
+  // 決定論的シミュレーション：seed + tick 数 + 入力 で結果が決まる
+  seed = 0;
+  rng = new Rng(0);
+  tick = 0;
+  private accumulator = 0;
+
+  // 入力 & fire 管理
+  lastFireTick = 0;
+
+  // リプレイ：記録中の入力ログ / 再生中のリプレイ
+  private recording: InputChange[] = [];
+  playback: { replay: Replay; cursor: number } | null = null;
+
+  // 論理プレイフィールド：playfield は次のランで使う大きさ、width / height は今のランの大きさ
+  playfield = { width: GAME_WIDTH, height: GAME_HEIGHT };
+  width = GAME_WIDTH;
+  height = GAME_HEIGHT;
+
+  // ステージ進行
+  stage = new StageRunner(STAGES);
+
+  // 演出：シミュレーションとは別の乱数で回し、設定で軽減できる
+  settings: Settings = { ...DEFAULT_SETTINGS };
+  fxRng = new Rng(0);
+  particles = new ParticlePool();
+  fx = createScreenEffects();
+  // 音：既定は無音（ブラウザでは WebAudioEngine を差し込む）
+  audio: AudioEngine = new NoopAudio();
+
+  // system 実行順 / 有効無効 / 計測
+  scheduler = new Scheduler();
+  renderMs = 0;
+
+  // 初期化
+  constructor(seed = randomSeed()) {
+    super();
+    for (const system of createDefaultSystems()) this.scheduler.add(system);
+    connectEffects(this);
+    connectAudio(this);
+    this.reset(true, seed);
+  }
+
+  get gameState() {
+    return this.state;
+  }
+
+  // 状態遷移。STATE_DEFS にない遷移はバグなので例外にする
+  setState(next: GameState) {
+    if (next === this.state) return;
+    if (!STATE_DEFS[this.state].next.includes(next)) {
+      throw new Error(`invalid state transition: ${this.state} -> ${next}`);
+    }
+    const from = this.state;
+    this.state = next;
+    this.stateMs = 0;
+    this.menuIndex = 0;
+    this.events.emit('stateChanged', { from, to: next });
+  }
+
+  // アセット読み込み中の画面。進み具合は呼び出し側が loadProgress に 0..1 で書き、読み終えたら showTitle
+  showLoading() {
+    this.reset(false);
+    this.loadProgress = 0;
+    this.setState('loading');
+  }
+
+  // タイトル画面（背景用に新しいランを用意して止めておく）
+  showTitle() {
+    this.reset(false);
+    this.setState('title');
+  }
+
+  // 一時停止：押しっぱなしの入力は離したことにする（再開直後に勝手に動かないよう）
+  pause() {
+    if (!STATE_DEFS[this.state].pausable) return;
+    if (!this.playback) this.applyInput(RELEASED_INPUT, true);
+    this.pausedFrom = this.state;
+    this.setState('paused');
+  }
+
+  resume() {
+    if (this.state !== 'paused') return;
+    this.accumulator = 0;
+    this.setState(this.pausedFrom);
+  }
+
+  togglePause() {
+    if (this.state === 'paused') this.resume();
+    else this.pause();
+  }
+
+  // ===== canvas メニュー =====
+  get menu() {
+    return STATE_DEFS[this.state].menu ?? [];
+  }
+
+  menuMove(delta: number) {
+    const n = this.menu.length;
+    if (!n) return;
+    this.menuIndex = (this.menuIndex + delta + n) % n;
+    this.events.emit('menuMoved', { index: this.menuIndex });
+  }
+
+  menuSelect(index = this.menuIndex) {
+    const item = this.menu[index];
+    if (!item) return;
+    this.events.emit('menuSelected', { action: item.action });
+    this.runMenuAction(item.action);
+  }
+
+  // タップ位置のメニュー項目を選ぶ。項目に当たれば true
+  menuPointer(x: number, y: number) {
+    const index = menuItemAt(this, x, y);
+    if (index < 0) return false;
+    this.menuIndex = index;
+    this.menuSelect(index);
+    return true;
+  }
+
+  private runMenuAction(action: MenuAction) {
+    switch (action) {
+      case 'start':
+      case 'retry':
+      case 'restart':
+        this.reset(false);
+        break;
+      case 'resume':
+        this.resume();
+        break;
+      case 'title':
+        this.showTitle();
+        break;
+    }
+  }
+
+  addScore(delta: number) {
+    if (!delta) return;
+    this.score += delta;
+    this.events.emit('scoreChanged', { score: this.score, delta });
+  }
+
+  // プレイヤーの HP（PlayerInfo.health を読むだけ）
+  get hp() {
+    return this.select(PLAYER_QUERY)[0]?.get(Player)!.health ?? 0;
+  }
+
+  // デバッグ表示（system ごとの ms / entity 数）
+  get debug() {
+    return this.scheduler.profiling;
+  }
+  set debug(on: boolean) {
+    this.scheduler.profiling = on;
+  }
+
+  // リセット（初期プレイヤーや星を作る）。size を省略すると playfield の大きさで始める
+  reset(skipScore = false, seed = randomSeed(), size = this.playfield) {
+    this.clear();
+    this.width = size.width;
+    this.height = size.height;
+    this.seed = seed >>> 0;
+    this.rng = new Rng(this.seed);
+    this.fxRng = new Rng(this.seed ^ 0x9e3779b9);
+    this.particles.reset();
+    this.fx = createScreenEffects();
+    this.tick = 0;
+    this.accumulator = 0;
+    this.recording = [];
+    this.playback = null;
+    this.stage.reset();
+    if (!skipScore) {
+      this.score = 0;
+    } else {
+      // 初起動時のscoreは0
+      this.score = 0;
+    }
+    // reset はどの状態からでも新しいランを始める
+    const from = this.state;
+    this.state = 'playing';
+    this.stateMs = 0;
+    this.menuIndex = 0;
+    this.continueTimer = 0;
+    this.continues = 0;
+    this.continueArmed = false;
+    // Player entity
+    const player = this.createEntity();
+    setVector2(player.attach(Position), this.width / 2, this.height - 60);
+    setVector2(player.attach(Velocity), 0, 0);
+    setRender(player.attach(Render), '#00ff88', PLAYER_SIZE, RenderLayer.PLAYER, 'player');
+    player.add(Player, { health: PLAYER_START_HP, shield: 0, invuln: 0, bombs: BOMB_STOCK, bombHeld: false });
+    player.add(Weapon, { type: 'normal', level: 1 });
+    setCircleCollider(player.attach(Collider), PLAYER_HITBOX_RADIUS, Layer.PLAYER);
+
+    // Input "entity" to store pointer / keyboard states (singleton)
+    const input = this.createEntity();
+    input.add(Input, {
+      left: false,
+      right: false,
+      up: false,
+      down: false,
+      shoot: false,
+      bomb: false,
+      axisX: 0,
+      axisY: 0,
+      touching: false,
+      mousePos: createVector2(this.width / 2, this.height - 60),
+    } satisfies InputState);
+
+    // Stars
+    const rng = this.rng;
+    for (let i = 0; i < STAR_COUNT; i++) {
+      const s = this.createEntity();
+      s.add(Star, { brightness: rng.range(0.2, 1) });
+      setVector2(s.attach(Position), rng.range(0, this.width), rng.range(0, this.height));
+      setVector2(s.attach(Velocity), 0, rng.range(0.3, 1.8));
+      setRender(s.attach(Render), '#fff', rng.range(0.5, 2.5), RenderLayer.BACKGROUND);
+    }
+
+    // reset fire timer
+    this.lastFireTick = this.tick;
+    this.flush();
+    if (from !== 'playing') this.events.emit('stateChanged', { from, to: 'playing' });
+    this.events.emit('runStarted', { seed: this.seed });
+  }
+
+  // === 1 tick 分のシミュレーション ===
+  step() {
+    const dt = FIXED_DT_MS;
+    if (this.playback) {
+      // 再生中：この tick の直前に記録された入力を流し込む
+      if (this.playbackFinished) return;
+      const { replay } = this.playback;
+      while (this.playback.cursor < replay.events.length && replay.events[this.playback.cursor].t <= this.tick) {
+        this.applyInput(replay.events[this.playback.cursor++].input, false);
+      }
+    }
+    this.tick++;
+    // gameOver 中は実行条件を持たない system（背景の移動など）だけが動く
+    this.scheduler.run(this, dt);
+  }
+
+  // 実時間 dtMs を貯めて固定 tick を必要数だけ進める。進めた tick 数を返す
+  // ヒットストップ中の時間は貯めない（tick 単位の結果は変わらず、見た目だけ止まる）
+  // title / paused / results では tick を進めない
+  update(dtMs: number) {
+    this.scheduler.beginFrame();
+    const frame = Math.min(dtMs, MAX_FRAME_MS);
+    this.stateMs += frame;
+    this.accumulator += frame - advanceEffects(this.fx, frame);
+    let steps = 0;
+    if (!STATE_DEFS[this.state].simulate) this.accumulator = 0;
+    while (this.accumulator >= FIXED_DT_MS && STATE_DEFS[this.state].simulate) {
+      this.step();
+      this.accumulator -= FIXED_DT_MS;
+      steps++;
+    }
+    this.syncAudio();
+    return steps;
+  }
+
+  // 今の状態に合わせて BGM / 一時停止 / 音量を AudioEngine に伝える（同じ指示は engine 側で無視される）
+  private syncAudio() {
+    this.audio.setVolumes(this.settings);
+    if (this.state === 'paused') {
+      this.audio.suspend();
+      return;
+    }
+    this.audio.resume();
+    this.audio.playMusic(this.music);
+  }
+
+  // 流すべき BGM（道中 / WARNING 以降はボス曲 / それ以外は無音）
+  get music(): MusicName | null {
+    if (this.state !== 'playing') return null;
+    return this.stage.bossState === 'none' ? 'stage' : 'boss';
+  }
+
+  // === 毎フレーム update 呼び出し箇所 ===
+  // tick を進めてから最後に 1 回だけ描画する
+  updateAndRender(renderer: Renderer, dtMs: number) {
+    this.update(dtMs);
+    const t0 = this.scheduler.profiling ? profileNow() : 0;
+    renderer.render(this);
+    if (this.scheduler.profiling) this.renderMs = profileNow() - t0;
+  }
+
+  // 操作ハンドラ呼び出し用（再生中やシミュレーションの止まった状態ではプレイヤー入力を無視する）
+  setInput(updates: Partial<InputState>) {
+    if (this.playback || !STATE_DEFS[this.state].simulate) return;
+    this.applyInput(updates, true);
+  }
+
+  // 実際に変化したキーだけを反映し、必要なら現在 tick で記録する
+  private applyInput(updates: Partial<InputState>, record: boolean) {
+    const inputEntity = this.select(INPUT_QUERY)[0];
+    if (!inputEntity) return;
+    const inp = inputEntity.get(Input)!;
+    const changed: Partial<InputState> = {};
+    let any = false;
+    for (const key of Object.keys(updates) as (keyof InputState)[]) {
+      const v = updates[key];
+      if (v === undefined) continue;
+      if (key === 'mousePos') {
+        const mp = v as Vec2;
+        if (mp.x === inp.mousePos.x && mp.y === inp.mousePos.y) continue;
+        changed.mousePos = createVector2(mp.x, mp.y);
+      } else {
+        if (inp[key] === v) continue;
+        (changed as Record<string, unknown>)[key] = v;
+      }
+      any = true;
+    }
+    if (!any) return;
+    Object.assign(inp, changed);
+    if (!record) return;
+    const last = this.recording[this.recording.length - 1];
+    if (last && last.t === this.tick) Object.assign(last.input, cloneInput(changed));
+    else this.recording.push({ t: this.tick, input: cloneInput(changed) });
+  }
+
+  // 現在の run をリプレイとして書き出す（再生中なら再生中のリプレイ）
+  exportReplay(): Replay {
+    if (this.playback) return this.playback.replay;
+    return {
+      version: REPLAY_VERSION,
+      seed: this.seed,
+      ticks: this.tick,
+      events: this.recording.map(ev => ({ t: ev.t, input: cloneInput(ev.input) })),
+      playfield: { width: this.width, height: this.height },
+    };
+  }
+
+  // リプレイ再生開始：同じ seed・同じ大きさで reset し、記録された入力だけで進める
+  startPlayback(replay: Replay) {
+    this.reset(false, replay.seed, replayPlayfield(replay));
+    this.playback = { replay, cursor: 0 };
+  }
+
+  get playbackFinished() {
+    return !!this.playback && this.tick >= this.playback.replay.ticks;
+  }
+
+  // ワールド全体のスナップショット（JSON.stringify してそのまま保存できる）
+  snapshot(): Snapshot {
+    const world = snapshotEntities(this);
+    return {
+      version: SNAPSHOT_VERSION,
+      seed: this.seed,
+      tick: this.tick,
+      playfield: { width: this.width, height: this.height },
+      rng: this.rng.state,
+      fxRng: this.fxRng.state,
+      score: this.score,
+      state: this.state,
+      pausedFrom: this.pausedFrom,
+      stateMs: this.stateMs,
+      menuIndex: this.menuIndex,
+      continueTimer: this.continueTimer,
+      continues: this.continues,
+      continueArmed: this.continueArmed,
+      lastFireTick: this.lastFireTick,
+      fx: { ...this.fx },
+      stage: snapshotStage(this.stage),
+      entities: world.entities,
+      queries: world.queries,
+      particles: { size: this.particles.size, free: this.particles.freeList.map(world.ref) },
+      recording: this.recording.map(ev => ({ t: ev.t, input: cloneInput(ev.input) })),
+      playback: this.playback && { replay: this.playback.replay, cursor: this.playback.cursor },
+    };
+  }
+
+  // スナップショットの時点に戻す（JSON から読んだものは parseSnapshot を通してから渡す）。
+  // 乱数・tick・クエリの並びまで戻るので、以後は元のゲームと同じ入力で同じ結果になる。
+  // 組み立てに失敗したら元のワールドに戻してから例外を投げ直す（中途半端なワールドを残さない）
+  restore(snap: Snapshot) {
+    const backup = this.snapshot();
+    const from = this.state;
+    try {
+      this.build(snap);
+    } catch (err) {
+      this.build(backup);
+      throw err;
+    }
+    if (from !== this.state) this.events.emit('stateChanged', { from, to: this.state });
+    this.events.emit('snapshotRestored', { seed: this.seed, tick: this.tick });
+  }
+
+  private build(snap: Snapshot) {
+    this.clear();
+    this.width = snap.playfield.width;
+    this.height = snap.playfield.height;
+    this.seed = snap.seed >>> 0;
+    this.rng = new Rng(this.seed);
+    this.rng.state = snap.rng;
+    this.fxRng = new Rng(0);
+    this.fxRng.state = snap.fxRng;
+    this.fx = { ...snap.fx };
+    this.tick = snap.tick;
+    this.accumulator = 0;
+    this.recording = snap.recording.map(ev => ({ t: ev.t, input: cloneInput(ev.input) }));
+    this.playback = snap.playback && { replay: snap.playback.replay, cursor: snap.playback.cursor };
+    restoreStage(this.stage, snap.stage);
+    this.score = snap.score;
+    this.state = snap.state;
+    this.pausedFrom = snap.pausedFrom;
+    this.stateMs = snap.stateMs;
+    this.menuIndex = snap.menuIndex;
+    this.continueTimer = snap.continueTimer;
+    this.continues = snap.continues;
+    this.continueArmed = snap.continueArmed;
+    this.lastFireTick = snap.lastFireTick;
+    const entities = restoreEntities(this, snap);
+    this.particles.restore(
+      snap.particles.size,
+      snap.particles.free.map(i => entities[i]),
+    );
+  }
+}
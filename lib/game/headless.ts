@@ -0,0 +1,29 @@
+import type { InputState } from './components';
+import { Game } from './game';
+import type { Replay } from './replay';
+
+// ====== ヘッドレス実行 ======
+// DOM / Canvas なしで tick を回す（Node 上のテスト・ボット・バランス調整用）
+
+export type Bot = (game: Game) => Partial<InputState> | void;
+
+// seed から ticks 分だけ進める。bot を渡すと毎 tick 入力を決めさせる
+export function simulate(options: { seed?: number; ticks: number; bot?: Bot }): Game {
+  const game = new Game(options.seed);
+  for (let i = 0; i < options.ticks; i++) {
+    if (options.bot) {
+      const input = options.bot(game);
+      if (input) game.setInput(input);
+    }
+    game.step();
+  }
+  return game;
+}
+
+// リプレイを最後まで再生し、終了時点の Game を返す
+export function runReplay(replay: Replay): Game {
+  const game = new Game(replay.seed);
+  game.startPlayback(replay);
+  while (!game.playbackFinished) game.step();
+  return game;
+}
@@ -0,0 +1,142 @@
+// ====== ローカルハイスコア表 ======
+// 保存先は KeyValueStorage 越しに受け取る（ブラウザでは localStorage、テストや Node では MemoryStorage）
+
+// localStorage と同じ形の最小インターフェース
+export interface KeyValueStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+// メモリ上だけの stand-in
+export class MemoryStorage implements KeyValueStorage {
+  private data = new Map<string, string>();
+  getItem(key: string) {
+    return this.data.has(key) ? this.data.get(key)! : null;
+  }
+  setItem(key: string, value: string) {
+    this.data.set(key, String(value));
+  }
+  removeItem(key: string) {
+    this.data.delete(key);
+  }
+}
+
+export type HighScoreEntry = {
+  name: string;
+  score: number;
+  stage: number; // 到達ステージ
+  seed: number; // そのランの seed（リプレイ・検証用）
+  date: string; // ISO 8601
+};
+
+export const HIGH_SCORE_VERSION = 1;
+export const HIGH_SCORE_LIMIT = 10;
+export const HIGH_SCORE_NAME_MAX = 10;
+export const HIGH_SCORE_STORAGE_KEY = 'shooting-game.highscores';
+
+// 入力された名前を整える（空なら既定名）
+export const normalizeName = (name: string) => name.trim().slice(0, HIGH_SCORE_NAME_MAX) || 'PLAYER';
+
+// 高いスコアが先、同点なら先に登録した方が上
+const compareEntries = (a: HighScoreEntry, b: HighScoreEntry) => b.score - a.score || a.date.localeCompare(b.date);
+
+// JSON から読み込んだ表の検証（不正なら例外）。配列だけの形式も受け付ける
+export const parseHighScores = (data: unknown): HighScoreEntry[] => {
+  const list = Array.isArray(data) ? data : (data as { version?: unknown; entries?: unknown })?.entries;
+  if (!Array.isArray(list)) throw new Error('ハイスコア形式が不正です');
+  const version = Array.isArray(data) ? HIGH_SCORE_VERSION : (data as { version?: unknown }).version;
+  if (version !== HIGH_SCORE_VERSION) throw new Error(`未対応のハイスコアバージョンです: ${String(version)}`);
+  return list.map(raw => {
+    const e = raw as HighScoreEntry;
+    if (
+      !e ||
+      typeof e.name !== 'string' ||
+      typeof e.score !== 'number' ||
+      typeof e.stage !== 'number' ||
+      typeof e.seed !== 'number' ||
+      typeof e.date !== 'string' ||
+      Number.isNaN(Date.parse(e.date))
+    ) {
+      throw new Error('ハイスコアの項目が不正です');
+    }
+    return { name: normalizeName(e.name), score: e.score, stage: e.stage, seed: e.seed >>> 0, date: e.date };
+  });
+};
+
+export class HighScoreTable {
+  private list: HighScoreEntry[] = [];
+
+  constructor(
+    private storage: KeyValueStorage,
+    readonly limit = HIGH_SCORE_LIMIT,
+    private key = HIGH_SCORE_STORAGE_KEY,
+  ) {
+    this.load();
+  }
+
+  get entries(): readonly HighScoreEntry[] {
+    return this.list;
+  }
+
+  // 壊れたデータは捨てて空から始める
+  load() {
+    try {
+      const raw = this.storage.getItem(this.key);
+      this.list = raw ? this.trim(parseHighScores(JSON.parse(raw))) : [];
+    } catch {
+      this.list = [];
+    }
+  }
+
+  // 表に載るスコアか（0 点は載せない）
+  qualifies(score: number) {
+    if (score <= 0) return false;
+    return this.list.length < this.limit || score > this.list[this.list.length - 1].score;
+  }
+
+  // 登録して順位 (0 始まり) を返す。載らなければ -1
+  add(entry: Omit<HighScoreEntry, 'date'> & { date?: string }) {
+    if (!this.qualifies(entry.score)) return -1;
+    const e: HighScoreEntry = { ...entry, name: normalizeName(entry.name), date: entry.date ?? new Date().toISOString() };
+    this.list = this.trim([...this.list, e]);
+    this.save();
+    return this.list.indexOf(e);
+  }
+
+  clear() {
+    this.list = [];
+    this.storage.removeItem(this.key);
+  }
+
+  toJSON() {
+    return { version: HIGH_SCORE_VERSION, entries: this.list };
+  }
+
+  exportJSON() {
+    return JSON.stringify(this.toJSON(), null, 2);
+  }
+
+  // 書き出した JSON を読み込んで今の表とマージする（同じ項目は 1 つにまとめる）
+  importJSON(text: string) {
+    const incoming = parseHighScores(JSON.parse(text));
+    const seen = new Set(this.list.map(e => JSON.stringify(e)));
+    const merged = [...this.list];
+    for (const e of incoming) {
+      const k = JSON.stringify(e);
+      if (seen.has(k)) continue;
+      seen.add(k);
+      merged.push(e);
+    }
+    this.list = this.trim(merged);
+    this.save();
+  }
+
+  private trim(list: HighScoreEntry[]) {
+    return list.sort(compareEntries).slice(0, this.limit);
+  }
+
+  private save() {
+    this.storage.setItem(this.key, JSON.stringify(this.toJSON()));
+  }
+}
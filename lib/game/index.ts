@@ -0,0 +1,46 @@
+// ゲームコアの公開 API（React / Canvas / Node から import する入口）
+export * from './constants';
+export * from './ecs';
+export * from './components';
+export * from './data/bosses';
+export * from './data/enemies';
+export * from './data/particles';
+export * from './data/patterns';
+export * from './data/pickups';
+export * from './data/weapons';
+export * from './data/stages';
+export * from './data/playfields';
+export * from './data/sounds';
+export * from './data/music';
+export { StageRunner } from './stage';
+export * from './prefabs';
+export * from './combat';
+export * from './pickups';
+export * from './particles';
+export * from './effects';
+export * from './events';
+export * from './feedback';
+export * from './settings';
+export * from './controls';
+export * from './inputController';
+export * from './touchControls';
+export * from './highscores';
+export * from './math';
+export * from './rng';
+export * from './replay';
+export * from './snapshot';
+export { Game } from './game';
+export * from './physics';
+export * from './scheduler';
+export * from './states';
+export * from './systems';
+export { simulate, runReplay, type Bot } from './headless';
+export * from './render/types';
+export { CanvasRenderer } from './render/canvasRenderer';
+export { WebGLRenderer } from './render/webglRenderer';
+export * from './render/viewport';
+export * from './render/atlas';
+export * from './render/assets';
+export type { AudioEngine, AudioVolumes } from './audio/types';
+export { NoopAudio } from './audio/noopAudio';
+export { WebAudioEngine } from './audio/webAudio';
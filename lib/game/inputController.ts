@@ -0,0 +1,152 @@
+import type { InputState } from './components';
+import { ACTIONS, actionForKey, applyDeadzone, GAMEPAD_BUTTONS, type Action } from './controls';
+import type { Game } from './game';
+import { clamp, createVector2, type Vec2 } from './math';
+import { inPlay } from './states';
+import { TouchControls } from './touchControls';
+
+// Gamepad API の必要な部分だけ（Node からも使えるように DOM 型に依存しない）
+export type GamepadLike = {
+  buttons: readonly { pressed: boolean }[];
+  axes: readonly number[];
+};
+
+// メニュー操作でスティックを「押した」とみなす倒し量
+const STICK_MENU_THRESHOLD = 0.5;
+
+// ====== 入力コントローラ ======
+// キーボード / ゲームパッド / ポインターの生の入力を集め、毎フレーム 1 回だけ
+// アクションに変換して Game に渡す（プレイ中は setInput、メニュー画面ではメニュー操作）
+export class InputController {
+  private heldKeys = new Set<string>();
+  // 前回の update から今回までに押されたアクション（同じフレーム内で離された短い押下も拾う）
+  private pressed = new Set<Action>();
+  private prevPad = new Set<Action>();
+  private pointer = { touching: false, fire: false, pos: null as Vec2 | null };
+  // マルチタッチ（指ごとに移動 / 射撃 / ボムを割り当てる）
+  readonly touch: TouchControls;
+
+  constructor(private game: Game) {
+    this.touch = new TouchControls(game);
+  }
+
+  // 割り当てのあるキーなら true（呼び出し側で preventDefault する）
+  keyDown(code: string) {
+    const action = actionForKey(this.game.settings.keyBindings, code);
+    if (!action) return false;
+    if (!this.heldKeys.has(code)) this.pressed.add(action);
+    this.heldKeys.add(code);
+    return true;
+  }
+
+  keyUp(code: string) {
+    this.heldKeys.delete(code);
+    return !!actionForKey(this.game.settings.keyBindings, code);
+  }
+
+  // フォーカスを失ったときなど、押しっぱなしの状態を捨てる
+  releaseAll() {
+    this.heldKeys.clear();
+    this.pressed.clear();
+    this.pointer = { touching: false, fire: false, pos: null };
+    this.touch.clear();
+  }
+
+  // マウス。メニュー画面では項目のタップとして扱う
+  pointerDown(pos: Vec2) {
+    if (this.game.menu.length) {
+      this.game.menuPointer(pos.x, pos.y);
+      return;
+    }
+    this.pointer = { touching: true, fire: true, pos };
+  }
+
+  // マウスは押していなくても追従する
+  pointerMove(pos: Vec2) {
+    this.pointer = { ...this.pointer, touching: true, pos };
+  }
+
+  pointerUp() {
+    this.pointer = { touching: false, fire: false, pos: this.pointer.pos };
+  }
+
+  // タッチ（id は Touch.identifier）。メニュー画面では項目のタップとして扱う
+  touchStart(id: number, pos: Vec2) {
+    if (this.game.menu.length) {
+      this.game.menuPointer(pos.x, pos.y);
+      return;
+    }
+    this.touch.start(id, pos);
+  }
+
+  touchMove(id: number, pos: Vec2) {
+    this.touch.move(id, pos);
+  }
+
+  touchEnd(id: number) {
+    this.touch.end(id);
+  }
+
+  // 1 フレーム分の入力を反映する。pads には navigator.getGamepads() の結果を渡す
+  update(pads: readonly (GamepadLike | null)[] = []) {
+    const game = this.game;
+    const settings = game.settings;
+    const held = new Set<Action>();
+    const bindings = settings.keyBindings;
+    this.heldKeys.forEach(code => {
+      const action = actionForKey(bindings, code);
+      if (action) held.add(action);
+    });
+
+    // gamepad: ボタン + 左スティック（最初に見つかった 1 台）
+    let stick = { x: 0, y: 0 };
+    const padHeld = new Set<Action>();
+    const pad = pads.find((p): p is GamepadLike => !!p);
+    if (pad) {
+      for (const action of ACTIONS) {
+        if (GAMEPAD_BUTTONS[action].some(i => pad.buttons[i]?.pressed)) padHeld.add(action);
+      }
+      stick = applyDeadzone(pad.axes[0] ?? 0, pad.axes[1] ?? 0, settings.deadzone);
+      if (stick.x <= -STICK_MENU_THRESHOLD) padHeld.add('left');
+      if (stick.x >= STICK_MENU_THRESHOLD) padHeld.add('right');
+      if (stick.y <= -STICK_MENU_THRESHOLD) padHeld.add('up');
+      if (stick.y >= STICK_MENU_THRESHOLD) padHeld.add('down');
+    }
+    padHeld.forEach(a => {
+      held.add(a);
+      if (!this.prevPad.has(a)) this.pressed.add(a);
+    });
+    this.prevPad = padHeld;
+    const pressed = this.pressed;
+    this.pressed = new Set();
+
+    if (pressed.has('pause')) game.togglePause();
+
+    // メニュー画面：上下で選択、射撃で決定
+    if (game.menu.length) {
+      if (pressed.has('up')) game.menuMove(-1);
+      if (pressed.has('down')) game.menuMove(1);
+      if (pressed.has('fire')) game.menuSelect();
+      return;
+    }
+
+    const down = (a: Action) => held.has(a) || pressed.has(a);
+    const touch = this.touch.read();
+    const input: Partial<InputState> = {
+      left: down('left'),
+      right: down('right'),
+      up: down('up'),
+      down: down('down'),
+      // auto-fire はプレイ中だけ（コンティニューは射撃ボタンを押し直して受け付けるため）
+      shoot: down('fire') || this.pointer.fire || touch.fire || (settings.autoFire && inPlay(game.gameState)),
+      bomb: down('bomb') || touch.bomb,
+      axisX: stick.x || touch.input.axisX || 0,
+      axisY: stick.y || touch.input.axisY || 0,
+      touching: this.pointer.touching || !!touch.input.touching,
+    };
+    // マウスは canvas の縁で少しはみ出すことがあるので、記録に残る前にプレイフィールド内へ収める
+    const pos = touch.input.mousePos ?? this.pointer.pos;
+    if (pos) input.mousePos = createVector2(clamp(pos.x, 0, game.width), clamp(pos.y, 0, game.height));
+    game.setInput(input);
+  }
+}
@@ -0,0 +1,13 @@
+// ====== ベクトル / 数値ユーティリティ ======
+export type Vec2 = { x: number; y: number; };
+
+export const createVector2 = (x = 0, y = 0): Vec2 => ({ x, y });
+// 使い回しのベクトルに書き込む
+export const setVector2 = (v: Vec2, x: number, y: number) => {
+  v.x = x;
+  v.y = y;
+  return v;
+};
+export const distance = (a: Vec2, b: Vec2) => Math.hypot(a.x - b.x, a.y - b.y);
+export const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
+export const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
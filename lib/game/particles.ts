@@ -0,0 +1,90 @@
+import { Lifetime, Particle, Position, Render, RenderLayer, Velocity } from './components';
+import { MAX_PARTICLES, REDUCED_MOTION_PARTICLES } from './constants';
+import { getParticleBurst } from './data/particles';
+import type { Entity } from './ecs';
+import type { Game } from './game';
+import { setVector2 } from './math';
+import { setRender } from './prefabs';
+
+// ====== パーティクルプール ======
+// パーティクルは Lifetime を持つ間だけ「生きている」entity。寿命が尽きたら破棄せず
+// Lifetime を外してプールに戻し、次の burst で使い回す（entity の生成は MAX_PARTICLES 個まで）
+export class ParticlePool {
+  private free: Entity[] = [];
+  size = 0; // これまでに作った entity 数
+
+  // world.clear() で entity ごと消えるので、プールも空にする
+  reset() {
+    this.free = [];
+    this.size = 0;
+  }
+
+  // 空き entity（末尾から使う）。スナップショットはこの並びを保存する
+  get freeList(): readonly Entity[] {
+    return this.free;
+  }
+
+  // スナップショットから復元した entity でプールを組み直す
+  restore(size: number, free: Entity[]) {
+    this.size = size;
+    this.free = free;
+  }
+
+  acquire(game: Game): Entity | null {
+    const reused = this.free.pop();
+    if (reused) return reused;
+    if (this.size >= MAX_PARTICLES) return null;
+    this.size++;
+    const e = game.createEntity();
+    setVector2(e.attach(Position), 0, 0);
+    setVector2(e.attach(Velocity), 0, 0);
+    setRender(e.attach(Render), '#fff', 1, RenderLayer.PARTICLE);
+    return e.add(Particle, { shape: 'dot', life: 1, drag: 1, angle: 0, spin: 0 });
+  }
+
+  release(e: Entity) {
+    e.remove(Lifetime);
+    const vel = e.get(Velocity)!;
+    vel.x = 0;
+    vel.y = 0;
+    this.free.push(e);
+  }
+
+  get active() {
+    return this.size - this.free.length;
+  }
+}
+
+// burst を 1 回出す。angle（度）を渡すとその向きを中心に散らす。乱数は演出用の fxRng だけを使う
+export function spawnParticles(game: Game, name: string, x: number, y: number, angle?: number) {
+  const def = getParticleBurst(name);
+  const rng = game.fxRng;
+  const count = game.settings.reducedMotion ? Math.floor(def.count * REDUCED_MOTION_PARTICLES) : def.count;
+  const center = angle ?? def.direction ?? 0;
+  const spread = angle === undefined && def.direction === undefined ? 360 : def.spread;
+  for (let i = 0; i < count; i++) {
+    const e = game.particles.acquire(game);
+    if (!e) return;
+    const a = ((center + rng.range(-spread / 2, spread / 2)) * Math.PI) / 180;
+    const speed = rng.range(def.speed[0], def.speed[1]);
+    const life = rng.range(def.life[0], def.life[1]);
+    const pos = e.get(Position)!;
+    pos.x = x;
+    pos.y = y;
+    const vel = e.get(Velocity)!;
+    vel.x = Math.cos(a) * speed;
+    vel.y = Math.sin(a) * speed;
+    const r = e.get(Render)!;
+    r.color = def.colors[Math.floor(rng.next() * def.colors.length)];
+    r.size = rng.range(def.size[0], def.size[1]);
+    r.alpha = 1;
+    const p = e.get(Particle)!;
+    p.shape = def.shape;
+    p.life = life;
+    p.drag = def.drag;
+    p.angle = rng.range(0, Math.PI * 2);
+    r.rotation = def.shape === 'debris' ? p.angle : 0;
+    p.spin = def.shape === 'debris' ? rng.range(-0.3, 0.3) : 0;
+    e.attach(Lifetime).t = life;
+  }
+}
@@ -0,0 +1,3 @@
+export * from './layers';
+export * from './shapes';
+export { SpatialGrid } from './spatialGrid';
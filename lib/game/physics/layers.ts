@@ -0,0 +1,23 @@
+// ====== 衝突レイヤー ======
+// entity は 1 つの layer ビットを持ち、mask に当たりたい相手の layer を並べる。
+// 双方の mask が相手の layer を含むときだけ接触として扱う
+export const Layer = {
+  PLAYER: 1 << 0,
+  ENEMY: 1 << 1,
+  PLAYER_BULLET: 1 << 2,
+  ENEMY_BULLET: 1 << 3,
+  PICKUP: 1 << 4,
+} as const;
+export type LayerBit = (typeof Layer)[keyof typeof Layer];
+
+// layer ごとの既定 mask
+export const DEFAULT_MASKS: Record<LayerBit, number> = {
+  [Layer.PLAYER]: Layer.ENEMY | Layer.ENEMY_BULLET | Layer.PICKUP,
+  [Layer.ENEMY]: Layer.PLAYER | Layer.PLAYER_BULLET,
+  [Layer.PLAYER_BULLET]: Layer.ENEMY,
+  [Layer.ENEMY_BULLET]: Layer.PLAYER,
+  [Layer.PICKUP]: Layer.PLAYER,
+};
+
+export const layersInteract = (layerA: number, maskA: number, layerB: number, maskB: number) =>
+  (maskA & layerB) !== 0 && (maskB & layerA) !== 0;
@@ -0,0 +1,76 @@
+import type { ColliderInfo } from '../components';
+import type { Vec2 } from '../math';
+import { DEFAULT_MASKS, type LayerBit } from './layers';
+
+// ====== 当たり判定形状 ======
+export type Bounds = { minX: number; minY: number; maxX: number; maxY: number };
+
+export const circleCollider = (r: number, layer: LayerBit, mask = DEFAULT_MASKS[layer]): ColliderInfo => ({
+  kind: 'circle',
+  r,
+  layer,
+  mask,
+});
+
+export const boxCollider = (w: number, h: number, layer: LayerBit, mask = DEFAULT_MASKS[layer]): ColliderInfo => ({
+  kind: 'aabb',
+  w,
+  h,
+  layer,
+  mask,
+});
+
+// 使い回しの ColliderInfo（Entity.attach で取り出したもの）を書き直す
+export function setCircleCollider(c: ColliderInfo, r: number, layer: LayerBit, mask = DEFAULT_MASKS[layer]) {
+  const w = c as ColliderInfo & { r: number };
+  w.kind = 'circle';
+  w.r = r;
+  w.layer = layer;
+  w.mask = mask;
+  return c;
+}
+
+export function setBoxCollider(c: ColliderInfo, width: number, height: number, layer: LayerBit, mask = DEFAULT_MASKS[layer]) {
+  const w = c as ColliderInfo & { w: number; h: number };
+  w.kind = 'aabb';
+  w.w = width;
+  w.h = height;
+  w.layer = layer;
+  w.mask = mask;
+  return c;
+}
+
+// 形状を囲む AABB（out に書き込んで返す）
+export function boundsOf(pos: Vec2, c: ColliderInfo, out: Bounds): Bounds {
+  const hw = c.kind === 'circle' ? c.r : c.w / 2;
+  const hh = c.kind === 'circle' ? c.r : c.h / 2;
+  out.minX = pos.x - hw;
+  out.minY = pos.y - hh;
+  out.maxX = pos.x + hw;
+  out.maxY = pos.y + hh;
+  return out;
+}
+
+function circleVsBox(c: Vec2, r: number, b: Vec2, w: number, h: number) {
+  const nx = Math.max(b.x - w / 2, Math.min(c.x, b.x + w / 2));
+  const ny = Math.max(b.y - h / 2, Math.min(c.y, b.y + h / 2));
+  const dx = c.x - nx;
+  const dy = c.y - ny;
+  return dx * dx + dy * dy < r * r;
+}
+
+// narrow-phase：2 形状が重なっているか
+export function overlaps(pa: Vec2, a: ColliderInfo, pb: Vec2, b: ColliderInfo) {
+  if (a.kind === 'circle' && b.kind === 'circle') {
+    const dx = pa.x - pb.x;
+    const dy = pa.y - pb.y;
+    const rr = a.r + b.r;
+    return dx * dx + dy * dy < rr * rr;
+  }
+  if (a.kind === 'aabb' && b.kind === 'aabb') {
+    return Math.abs(pa.x - pb.x) * 2 < a.w + b.w && Math.abs(pa.y - pb.y) * 2 < a.h + b.h;
+  }
+  if (a.kind === 'circle' && b.kind === 'aabb') return circleVsBox(pa, a.r, pb, b.w, b.h);
+  if (a.kind === 'aabb' && b.kind === 'circle') return circleVsBox(pb, b.r, pa, a.w, a.h);
+  return false;
+}
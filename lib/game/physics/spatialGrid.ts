@@ -0,0 +1,64 @@
+import type { Entity } from '../ecs';
+import type { Bounds } from './shapes';
+
+// ====== 一様グリッド（broad-phase） ======
+// 毎 tick clear → insert し直す。画面外の entity は端のセルに寄せる
+export class SpatialGrid {
+  private cells: Entity[][] = [];
+  private cols = 0;
+  private rows = 0;
+  // 覆っている範囲（resize で変わる）
+  width = 0;
+  height = 0;
+  // 同じ相手を 1 回の問い合わせで複数回返さないための印（entity のスロット -> 問い合わせ番号）
+  private visited: number[] = [];
+  private stamp = 0;
+
+  constructor(width: number, height: number, readonly cellSize = 32) {
+    this.resize(width, height);
+  }
+
+  resize(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+    this.cols = Math.max(1, Math.ceil(width / this.cellSize));
+    this.rows = Math.max(1, Math.ceil(height / this.cellSize));
+    this.cells = [];
+    for (let i = 0; i < this.cols * this.rows; i++) this.cells.push([]);
+  }
+
+  clear() {
+    for (const cell of this.cells) cell.length = 0;
+  }
+
+  private cellX(x: number) {
+    return Math.max(0, Math.min(this.cols - 1, Math.floor(x / this.cellSize)));
+  }
+  private cellY(y: number) {
+    return Math.max(0, Math.min(this.rows - 1, Math.floor(y / this.cellSize)));
+  }
+
+  insert(e: Entity, b: Bounds) {
+    const x1 = this.cellX(b.maxX);
+    const y1 = this.cellY(b.maxY);
+    for (let cy = this.cellY(b.minY); cy <= y1; cy++) {
+      for (let cx = this.cellX(b.minX); cx <= x1; cx++) this.cells[cy * this.cols + cx].push(e);
+    }
+  }
+
+  // b と同じセルにいる entity を 1 回ずつ visit する
+  forEachNear(b: Bounds, visit: (other: Entity) => void) {
+    const stamp = ++this.stamp;
+    const x1 = this.cellX(b.maxX);
+    const y1 = this.cellY(b.maxY);
+    for (let cy = this.cellY(b.minY); cy <= y1; cy++) {
+      for (let cx = this.cellX(b.minX); cx <= x1; cx++) {
+        for (const other of this.cells[cy * this.cols + cx]) {
+          if (this.visited[other.slot] === stamp) continue;
+          this.visited[other.slot] = stamp;
+          visit(other);
+        }
+      }
+    }
+  }
+}
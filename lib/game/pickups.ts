@@ -0,0 +1,49 @@
+import { Player, Position, Weapon } from './components';
+import { PLAYER_MAX_HP } from './constants';
+import { PICKUP_DEFS, type PickupKind } from './data/pickups';
+import { MAX_WEAPON_LEVEL } from './data/weapons';
+import type { Entity } from './ecs';
+import type { Game } from './game';
+import { spawnPickup } from './prefabs';
+
+// ====== アイテムのドロップと取得 ======
+
+// 抽選に使う種類の並びと重みの合計（読み込み時に 1 度だけ作る）
+const DROP_KINDS = Object.keys(PICKUP_DEFS) as PickupKind[];
+const DROP_TOTAL_WEIGHT = DROP_KINDS.reduce((sum, k) => sum + PICKUP_DEFS[k].weight, 0);
+
+// 重みに従ってアイテムの種類を抽選し、その場に落とす
+export function dropPickup(game: Game, x: number, y: number) {
+  let r = game.rng.next() * DROP_TOTAL_WEIGHT;
+  let kind = DROP_KINDS[DROP_KINDS.length - 1];
+  for (const k of DROP_KINDS) {
+    r -= PICKUP_DEFS[k].weight;
+    if (r < 0) {
+      kind = k;
+      break;
+    }
+  }
+  return spawnPickup(game, kind, x, y);
+}
+
+// 取得効果。ウェポンは同種でも別種でも level が 1 上がる（別種なら持ち替え）
+export function applyPickup(game: Game, player: Entity, kind: PickupKind) {
+  switch (kind) {
+    case 'shield':
+      player.get(Player)!.shield = 1;
+      break;
+    case 'life': {
+      const info = player.get(Player)!;
+      info.health = Math.min(PLAYER_MAX_HP, info.health + 1);
+      game.events.emit('healthChanged', { health: info.health });
+      break;
+    }
+    default: {
+      const weapon = player.get(Weapon)!;
+      weapon.type = kind;
+      weapon.level = Math.min(MAX_WEAPON_LEVEL, weapon.level + 1);
+    }
+  }
+  const pos = player.get(Position)!;
+  game.events.emit('pickupCollected', { kind, x: pos.x, y: pos.y });
+}
@@ -0,0 +1,163 @@
+import {
+  Boss,
+  BossPart,
+  Bullet,
+  Collider,
+  Emitter,
+  Enemy,
+  Health,
+  Lifetime,
+  Pickup,
+  Position,
+  Render,
+  RenderLayer,
+  Velocity,
+  type HealthInfo,
+  type RenderInfo,
+} from './components';
+import { PICKUP_FALL_SPEED, PICKUP_SIZE } from './constants';
+import { getBossDef } from './data/bosses';
+import { getEnemyDef } from './data/enemies';
+import { PICKUP_DEFS, type PickupKind } from './data/pickups';
+import { getBulletPattern, type BulletStyle } from './data/patterns';
+import type { ShotDef } from './data/weapons';
+import type { Entity } from './ecs';
+import type { Game } from './game';
+import { setVector2 } from './math';
+import { Layer, setBoxCollider, setCircleCollider } from './physics';
+
+// ====== Entity 生成ヘルパー ======
+// 弾・敵・アイテムは毎 tick のように作っては消すので、部品は Entity.attach でプールから取って全部書き直す
+
+// 使い回しの Render を書き直す（前の持ち主の sprite / rotation / alpha を残さない）
+export function setRender(r: RenderInfo, color: string, size: number, layer: number, sprite?: string, rotation = 0) {
+  r.color = color;
+  r.size = size;
+  r.sprite = sprite;
+  r.rotation = rotation;
+  r.scale = 1;
+  r.alpha = 1;
+  r.layer = layer;
+  return r;
+}
+
+function setHealth(h: HealthInfo, hp: number) {
+  h.hp = hp;
+  h.maxHp = hp;
+  h.flash = 0;
+  return h;
+}
+
+// sprite 名（'enemy/basic' など）は種類ごとに 1 回だけ組み立てる
+function spriteNames(prefix: string) {
+  const names = new Map<string, string>();
+  return (name: string) => {
+    let sprite = names.get(name);
+    if (sprite === undefined) {
+      sprite = `${prefix}/${name}`;
+      names.set(name, sprite);
+    }
+    return sprite;
+  };
+}
+const enemySprite = spriteNames('enemy');
+const bulletSprite = spriteNames('bullet');
+const pickupSprite = spriteNames('pickup');
+
+// 敵定義テーブルから敵を 1 体生成する
+export function spawnEnemy(game: Game, type: string, x: number, y: number) {
+  const def = getEnemyDef(type);
+  const e = game.createEntity();
+  setVector2(e.attach(Position), x, y);
+  setVector2(e.attach(Velocity), 0, def.speed);
+  setRender(e.attach(Render), def.color, def.size, RenderLayer.ENEMY, enemySprite(type));
+  const enemy = e.attach(Enemy);
+  enemy.type = type;
+  enemy.t = 0;
+  enemy.originX = x;
+  enemy.diving = false;
+  setHealth(e.attach(Health), def.hp);
+  setBoxCollider(e.attach(Collider), def.size, def.size, Layer.ENEMY);
+  if (def.pattern) attachEmitter(e, def.pattern);
+  return e;
+}
+
+// ボス本体と部位を生成する。弾幕は登場し終えてから付ける（systems/boss）
+export function spawnBoss(game: Game, type: string) {
+  const def = getBossDef(type);
+  const x = game.width / 2;
+  const boss = game.createEntity();
+  setVector2(boss.attach(Position), x, -def.h);
+  setVector2(boss.attach(Velocity), 0, def.entrySpeed);
+  setRender(boss.attach(Render), def.color, def.w, RenderLayer.BOSS, `boss/${type}`);
+  setHealth(boss.attach(Health), def.hp);
+  setBoxCollider(boss.attach(Collider), def.w, def.h, Layer.ENEMY);
+  boss.add(Boss, { type, phase: 0, t: 0, originX: x, entering: true });
+
+  def.parts.forEach((part, index) => {
+    const p = game.createEntity();
+    setVector2(p.attach(Position), x + part.offset.x, -def.h + part.offset.y);
+    setRender(p.attach(Render), part.color, part.w, RenderLayer.BOSS_PART, `boss/${type}/${part.name}`);
+    setHealth(p.attach(Health), part.hp);
+    setBoxCollider(p.attach(Collider), part.w, part.h, Layer.ENEMY);
+    p.add(BossPart, { boss: boss.id, index });
+  });
+  return boss;
+}
+
+// 弾幕パターンの Emitter を付ける（付け直すと最初から撃ち直す）
+export function attachEmitter(e: Entity, pattern: string) {
+  const def = getBulletPattern(pattern);
+  const em = e.attach(Emitter);
+  em.pattern = pattern;
+  em.timer = def.delay ?? def.interval;
+  em.angle = 0;
+  em.burstLeft = 0;
+}
+
+// 自機弾（ウェポンの ShotDef 1 発分）
+export function spawnPlayerBullet(game: Game, x: number, y: number, shot: ShotDef) {
+  const a = (shot.angle * Math.PI) / 180;
+  const b = game.createEntity();
+  setVector2(b.attach(Position), x + shot.dx, y);
+  setVector2(b.attach(Velocity), Math.sin(a) * shot.speed, -Math.cos(a) * shot.speed);
+  setRender(b.attach(Render), shot.color, shot.size, RenderLayer.BULLET, bulletSprite(shot.kind), a);
+  const bullet = b.attach(Bullet);
+  bullet.owner = 'player';
+  bullet.damage = shot.damage;
+  bullet.kind = shot.kind;
+  bullet.pierce = shot.pierce;
+  bullet.turnRate = shot.turnRate;
+  setCircleCollider(b.attach(Collider), shot.size / 2, Layer.PLAYER_BULLET);
+  // small lifetime to cleanup if off-screen
+  b.attach(Lifetime).t = 3000; // 3s safety (also cleaned by bounds)
+  return b;
+}
+
+// アイテム（ゆっくり落ちてくる）
+export function spawnPickup(game: Game, kind: PickupKind, x: number, y: number) {
+  const p = game.createEntity();
+  setVector2(p.attach(Position), x, y);
+  setVector2(p.attach(Velocity), 0, PICKUP_FALL_SPEED);
+  setRender(p.attach(Render), PICKUP_DEFS[kind].color, PICKUP_SIZE, RenderLayer.PICKUP, pickupSprite(kind));
+  p.attach(Pickup).kind = kind;
+  setCircleCollider(p.attach(Collider), PICKUP_SIZE / 2 + 2, Layer.PICKUP);
+  return p;
+}
+
+// 敵弾：angle はラジアン（0 = 右, π/2 = 真下）
+export function spawnEnemyBullet(game: Game, x: number, y: number, angle: number, speed: number, style: BulletStyle) {
+  const b = game.createEntity();
+  setVector2(b.attach(Position), x, y);
+  setVector2(b.attach(Velocity), Math.cos(angle) * speed, Math.sin(angle) * speed);
+  setRender(b.attach(Render), style.color, style.size, RenderLayer.BULLET);
+  const bullet = b.attach(Bullet);
+  bullet.owner = 'enemy';
+  bullet.damage = style.damage;
+  bullet.kind = undefined;
+  bullet.pierce = undefined;
+  bullet.turnRate = undefined;
+  setCircleCollider(b.attach(Collider), style.size / 2, Layer.ENEMY_BULLET);
+  b.attach(Lifetime).t = 8000; // safety (also cleaned by bounds)
+  return b;
+}
@@ -0,0 +1,39 @@
+import { parseAtlas, TextureAtlas } from './atlas';
+
+// ====== アセット読み込み（ブラウザ専用） ======
+// アトラスの JSON → 画像の順に読む。失敗しても例外にはせず errors に積み、
+// 読めなかったアトラスの sprite はベクター描画で代用する
+
+export const SPRITE_ATLAS_URL = '/assets/sprites.json';
+
+export type LoadedAssets = { atlas: TextureAtlas | null; errors: string[] };
+
+function loadImage(url: string) {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`画像を読み込めません: ${url}`));
+    img.src = url;
+  });
+}
+
+// onProgress には 0..1 の進み具合を渡す
+export async function loadAtlas(url: string, onProgress?: (progress: number) => void): Promise<TextureAtlas> {
+  onProgress?.(0);
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`アトラスを読み込めません: ${url} (${res.status})`);
+  const data = parseAtlas(await res.json());
+  onProgress?.(0.5);
+  const image = await loadImage(new URL(data.image, new URL(url, window.location.href)).href);
+  onProgress?.(1);
+  return new TextureAtlas(data, image);
+}
+
+export async function loadAssets(onProgress?: (progress: number) => void): Promise<LoadedAssets> {
+  try {
+    return { atlas: await loadAtlas(SPRITE_ATLAS_URL, onProgress), errors: [] };
+  } catch (err) {
+    onProgress?.(1);
+    return { atlas: null, errors: [err instanceof Error ? err.message : String(err)] };
+  }
+}
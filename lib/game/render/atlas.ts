@@ -0,0 +1,74 @@
+import { FIXED_DT_MS } from '../constants';
+
+// ====== テクスチャアトラス ======
+// 1 枚の画像と、その中の矩形（frame）に名前を付けた JSON。animation は frame 名の列を fps で回す。
+// Render.sprite には frame 名か animation 名を書く。アトラスに無い名前はベクター描画にフォールバックする
+//
+// {
+//   "image": "sprites.svg",               // JSON からの相対パス
+//   "scale": 2,                           // 論理 1px あたりの画素数（省略時 1）。frame はこの倍率で描いてある
+//   "frames": { "enemy/basic": { "x": 0, "y": 0, "w": 32, "h": 32 } },
+//   "animations": { "player": { "frames": ["player/0", "player/1"], "fps": 12 } }
+// }
+
+export type AtlasFrame = { x: number; y: number; w: number; h: number };
+export type AtlasAnimation = { frames: string[]; fps: number };
+export type AtlasData = {
+  image: string;
+  scale: number;
+  frames: Record<string, AtlasFrame>;
+  animations: Record<string, AtlasAnimation>;
+};
+
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+// JSON の検証（不正なら例外）。animation が存在しない frame を指していたら弾く
+export function parseAtlas(raw: unknown): AtlasData {
+  const r = raw as Partial<AtlasData>;
+  if (!r || typeof r !== 'object' || typeof r.image !== 'string' || !r.frames || typeof r.frames !== 'object') {
+    throw new Error('アトラス形式が不正です');
+  }
+  const scale = r.scale ?? 1;
+  if (!isFiniteNumber(scale) || scale <= 0) throw new Error('アトラスの scale が不正です');
+  const frames: Record<string, AtlasFrame> = {};
+  for (const name of Object.keys(r.frames)) {
+    const f = r.frames[name];
+    if (!f || !isFiniteNumber(f.x) || !isFiniteNumber(f.y) || !isFiniteNumber(f.w) || !isFiniteNumber(f.h) || f.w <= 0 || f.h <= 0) {
+      throw new Error(`アトラスの frame が不正です: ${name}`);
+    }
+    frames[name] = { x: f.x, y: f.y, w: f.w, h: f.h };
+  }
+  const animations: Record<string, AtlasAnimation> = {};
+  const rawAnims = r.animations ?? {};
+  for (const name of Object.keys(rawAnims)) {
+    const a = rawAnims[name];
+    if (!a || !Array.isArray(a.frames) || !a.frames.length || !isFiniteNumber(a.fps) || a.fps <= 0) {
+      throw new Error(`アトラスの animation が不正です: ${name}`);
+    }
+    const missing = a.frames.find(f => !frames[f]);
+    if (missing !== undefined) throw new Error(`animation ${name} の frame がありません: ${missing}`);
+    animations[name] = { frames: [...a.frames], fps: a.fps };
+  }
+  return { image: r.image, scale, frames, animations };
+}
+
+export class TextureAtlas {
+  constructor(
+    readonly data: AtlasData,
+    readonly image: CanvasImageSource,
+  ) {}
+
+  has(name: string) {
+    return name in this.data.frames || name in this.data.animations;
+  }
+
+  // 名前（frame / animation）と tick から今描く frame を返す。無ければ null
+  frame(name: string, tick: number): AtlasFrame | null {
+    const anim = this.data.animations[name];
+    if (anim) {
+      const index = Math.floor(((tick * FIXED_DT_MS) / 1000) * anim.fps) % anim.frames.length;
+      return this.data.frames[anim.frames[index]];
+    }
+    return this.data.frames[name] ?? null;
+  }
+}
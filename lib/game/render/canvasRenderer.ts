@@ -0,0 +1,555 @@
+import {
+  Boss,
+  BossPart,
+  Bullet,
+  Enemy,
+  Health,
+  Particle,
+  Pickup,
+  Player,
+  Position,
+  Render,
+  Star,
+  Velocity,
+  Weapon,
+} from '../components';
+import { DAMAGE_FLASH_MS, FIXED_DT_MS, PLAYER_MAX_HP, STAGE_BANNER_TICKS } from '../constants';
+import { getBossDef } from '../data/bosses';
+import { PICKUP_DEFS } from '../data/pickups';
+import { WEAPONS } from '../data/weapons';
+import { defineQuery, type Entity } from '../ecs';
+import type { Game } from '../game';
+import { menuItemRect, STATE_DEFS, type GameState } from '../states';
+import type { TouchControls } from '../touchControls';
+import type { AtlasFrame, TextureAtlas } from './atlas';
+import { drawDebugOverlay } from './debugOverlay';
+import { collectDrawList } from './drawList';
+import { drawTouchControls } from './touchOverlay';
+import type { Renderer } from './types';
+
+const BOSS_HEALTH_QUERY = defineQuery(Boss, Health);
+const PLAYER_QUERY = defineQuery(Player);
+const PLAYER_WEAPON_QUERY = defineQuery(Player, Weapon);
+
+// tick → 秒（コンティニューの残り・経過時間の表示用）
+const TICKS_PER_SECOND = 1000 / FIXED_DT_MS;
+
+// ====== Canvas2D レンダラー ======
+export class CanvasRenderer implements Renderer {
+  // タッチ操作のボタン / スティック（InputController.touch を渡すと描く）
+  touch: TouchControls | null = null;
+  // 読み込んだスプライト（null の間は全部ベクター描画）
+  atlas: TextureAtlas | null = null;
+  // 描画順に並べ替える作業用（毎フレーム使い回す）
+  private drawList: Entity[] = [];
+
+  constructor(private ctx: CanvasRenderingContext2D) {}
+
+  // RenderSystem: draw everything to canvas context
+  render(game: Game) {
+    const ctx = this.ctx;
+    // 論理座標 → backing store（devicePixelRatio・表示倍率込み）
+    ctx.setTransform(ctx.canvas.width / game.width, 0, 0, ctx.canvas.height / game.height, 0, 0);
+    // clear
+    ctx.fillStyle = '#000011';
+    ctx.fillRect(0, 0, game.width, game.height);
+    this.drawWorld(game);
+    this.drawScreen(game);
+  }
+
+  // ワールドを別の canvas（WebGLRenderer）が描くとき用：HUD / メニューなどだけを透明の上に描く
+  renderScreen(game: Game) {
+    const ctx = this.ctx;
+    ctx.setTransform(ctx.canvas.width / game.width, 0, 0, ctx.canvas.height / game.height, 0, 0);
+    ctx.clearRect(0, 0, game.width, game.height);
+    this.drawScreen(game);
+  }
+
+  private drawWorld(game: Game) {
+    const ctx = this.ctx;
+
+    // screen shake: ワールドだけを揺らし、HUD は揺らさない
+    ctx.save();
+    if (game.fx.shake > 0) {
+      ctx.translate((Math.random() * 2 - 1) * game.fx.shake, (Math.random() * 2 - 1) * game.fx.shake);
+    }
+
+    // world: layer の小さい順（同じ layer は生成順）に 1 体ずつ描く
+    for (const e of collectDrawList(game, this.drawList)) this.drawEntity(game, e);
+    this.drawList.length = 0;
+    ctx.globalAlpha = 1;
+    ctx.lineWidth = 1;
+    ctx.restore();
+  }
+
+  // ワールドより手前のもの（揺らさない）
+  private drawScreen(game: Game) {
+    const ctx = this.ctx;
+    // damage flash
+    if (game.fx.flash > 0) {
+      ctx.fillStyle = `rgba(255,0,40,${(0.35 * game.fx.flash) / DAMAGE_FLASH_MS})`;
+      ctx.fillRect(0, 0, game.width, game.height);
+    }
+
+    // replay indicator
+    if (game.playback) {
+      ctx.fillStyle = '#ff4488';
+      ctx.font = 'bold 12px Arial';
+      ctx.textAlign = 'right';
+      ctx.fillText(`▶ REPLAY ${game.tick}/${game.playback.replay.ticks}`, game.width - 10, 20);
+      ctx.textAlign = 'left';
+    }
+
+    if (game.gameState !== 'title' && game.gameState !== 'loading') this.drawHud(game);
+    if (this.touch && STATE_DEFS[game.gameState].simulate && !game.playback) drawTouchControls(ctx, game, this.touch);
+
+    // 状態ごとの画面（メニュー・バナー・オーバーレイ）
+    this.overlays[game.gameState](game);
+    if (game.menu.length) this.drawMenu(game);
+
+    if (game.debug) drawDebugOverlay(ctx, game);
+  }
+
+  // ====== ワールドの 1 体 ======
+  // Render.rotation / scale は位置を中心に掛け、alpha は globalAlpha にする。
+  // sprite がアトラスにあればそれを、無ければ従来のベクター図形を描く
+  private drawEntity(game: Game, e: Entity) {
+    const ctx = this.ctx;
+    const pos = e.get(Position)!;
+    const r = e.get(Render)!;
+    const rotation = r.rotation ?? 0;
+    const scale = r.scale ?? 1;
+    const transformed = rotation !== 0 || scale !== 1;
+    if (transformed) {
+      ctx.save();
+      ctx.translate(pos.x, pos.y);
+      ctx.rotate(rotation);
+      ctx.scale(scale, scale);
+      ctx.translate(-pos.x, -pos.y);
+    }
+    ctx.globalAlpha = r.alpha ?? 1;
+    const frame = r.sprite && this.atlas ? this.atlas.frame(r.sprite, game.tick) : null;
+    if (frame) this.drawSprite(e, frame);
+    else this.drawVector(game, e);
+    ctx.globalAlpha = 1;
+    if (transformed) ctx.restore();
+    this.drawDecorations(game, e);
+  }
+
+  // アトラスの frame を原寸（アトラスの scale で割った論理サイズ）で中央に描く
+  private drawSprite(e: Entity, frame: AtlasFrame) {
+    const ctx = this.ctx;
+    const atlas = this.atlas!;
+    const pos = e.get(Position)!;
+    const w = frame.w / atlas.data.scale;
+    const h = frame.h / atlas.data.scale;
+    ctx.drawImage(atlas.image, frame.x, frame.y, frame.w, frame.h, pos.x - w / 2, pos.y - h / 2, w, h);
+    // hit flash: 被弾直後は加算で重ねて白っぽくする
+    const health = e.get(Health);
+    if (health && health.flash > 0) {
+      ctx.globalCompositeOperation = 'lighter';
+      ctx.drawImage(atlas.image, frame.x, frame.y, frame.w, frame.h, pos.x - w / 2, pos.y - h / 2, w, h);
+      ctx.globalCompositeOperation = 'source-over';
+    }
+  }
+
+  // 素材が無いときの図形。回転は drawEntity が掛けるので、ここでは上向き・無回転で描く
+  private drawVector(game: Game, e: Entity) {
+    const ctx = this.ctx;
+    const pos = e.get(Position)!;
+    const r = e.get(Render)!;
+    const health = e.get(Health);
+    const flash = !!health && health.flash > 0;
+
+    const star = e.get(Star);
+    if (star) {
+      ctx.fillStyle = `rgba(255,255,255,${star.brightness})`;
+      ctx.beginPath();
+      ctx.arc(pos.x, pos.y, (r.size ?? 1) / 2, 0, Math.PI * 2);
+      ctx.fill();
+      return;
+    }
+
+    if (e.has(Player)) {
+      // ship shape
+      ctx.fillStyle = r.color;
+      ctx.strokeStyle = '#ffffff';
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(pos.x, pos.y - r.size / 2);
+      ctx.lineTo(pos.x - r.size / 3, pos.y + r.size / 2);
+      ctx.lineTo(pos.x, pos.y + r.size / 4);
+      ctx.lineTo(pos.x + r.size / 3, pos.y + r.size / 2);
+      ctx.closePath();
+      ctx.fill();
+      ctx.stroke();
+      const vel = e.get(Velocity);
+      if (vel && (Math.abs(vel.x) > 0.5 || Math.abs(vel.y) > 0.5)) {
+        ctx.fillStyle = '#ff6600';
+        ctx.beginPath();
+        ctx.moveTo(pos.x - 3, pos.y + r.size / 2);
+        ctx.lineTo(pos.x, pos.y + r.size / 2 + 8);
+        ctx.lineTo(pos.x + 3, pos.y + r.size / 2);
+        ctx.fill();
+      }
+      return;
+    }
+
+    // pickups: ラベル付きのカプセル
+    const pickup = e.get(Pickup);
+    if (pickup) {
+      ctx.fillStyle = r.color;
+      ctx.strokeStyle = '#ffffff';
+      ctx.beginPath();
+      ctx.arc(pos.x - r.size / 4, pos.y, r.size / 2, Math.PI / 2, (Math.PI * 3) / 2);
+      ctx.arc(pos.x + r.size / 4, pos.y, r.size / 2, -Math.PI / 2, Math.PI / 2);
+      ctx.closePath();
+      ctx.fill();
+      ctx.stroke();
+      ctx.fillStyle = '#000000';
+      ctx.font = 'bold 10px Arial';
+      ctx.textAlign = 'center';
+      ctx.fillText(PICKUP_DEFS[pickup.kind].label, pos.x, pos.y + 4);
+      ctx.textAlign = 'left';
+      return;
+    }
+
+    const bullet = e.get(Bullet);
+    if (bullet) {
+      ctx.fillStyle = r.color;
+      ctx.shadowColor = r.color;
+      ctx.shadowBlur = 4;
+      if (bullet.kind === 'laser') {
+        // 細長いビーム
+        ctx.fillRect(pos.x - r.size / 2, pos.y - 10, r.size, 20);
+      } else if (bullet.kind === 'missile') {
+        // 上向きの三角（進行方向へは Render.rotation で向ける）
+        const a = -Math.PI / 2;
+        ctx.beginPath();
+        ctx.moveTo(pos.x + Math.cos(a) * r.size, pos.y + Math.sin(a) * r.size);
+        ctx.lineTo(pos.x + Math.cos(a + 2.5) * r.size * 0.7, pos.y + Math.sin(a + 2.5) * r.size * 0.7);
+        ctx.lineTo(pos.x + Math.cos(a - 2.5) * r.size * 0.7, pos.y + Math.sin(a - 2.5) * r.size * 0.7);
+        ctx.closePath();
+        ctx.fill();
+      } else {
+        ctx.beginPath();
+        ctx.arc(pos.x, pos.y, (r.size ?? 4) / 2, 0, Math.PI * 2);
+        ctx.fill();
+      }
+      ctx.shadowBlur = 0;
+      return;
+    }
+
+    if (e.has(Enemy)) {
+      // hit flash: 被弾直後は白く塗る
+      ctx.fillStyle = flash ? '#ffffff' : r.color;
+      ctx.strokeStyle = '#aa0000';
+      ctx.lineWidth = 1;
+      ctx.fillRect(pos.x - r.size / 2, pos.y - r.size / 2, r.size, r.size);
+      ctx.strokeRect(pos.x - r.size / 2, pos.y - r.size / 2, r.size, r.size);
+      return;
+    }
+
+    const boss = e.get(Boss);
+    if (boss) {
+      const def = getBossDef(boss.type);
+      ctx.fillStyle = flash ? '#ffffff' : def.color;
+      ctx.strokeStyle = '#ffffff';
+      ctx.lineWidth = 2;
+      ctx.fillRect(pos.x - def.w / 2, pos.y - def.h / 2, def.w, def.h);
+      ctx.strokeRect(pos.x - def.w / 2, pos.y - def.h / 2, def.w, def.h);
+      // core
+      ctx.fillStyle = '#ffee66';
+      ctx.beginPath();
+      ctx.arc(pos.x, pos.y, Math.min(def.w, def.h) / 5, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.lineWidth = 1;
+      return;
+    }
+
+    const part = e.get(BossPart);
+    if (part) {
+      const owner = game.getEntity(part.boss);
+      if (!owner) return;
+      const def = getBossDef(owner.get(Boss)!.type).parts[part.index];
+      ctx.fillStyle = flash ? '#ffffff' : def.color;
+      ctx.strokeStyle = '#442200';
+      ctx.fillRect(pos.x - def.w / 2, pos.y - def.h / 2, def.w, def.h);
+      ctx.strokeRect(pos.x - def.w / 2, pos.y - def.h / 2, def.w, def.h);
+      return;
+    }
+
+    const particle = e.get(Particle);
+    if (particle) {
+      ctx.fillStyle = r.color;
+      ctx.strokeStyle = r.color;
+      if (particle.shape === 'spark') {
+        const vel = e.get(Velocity)!;
+        ctx.lineWidth = r.size;
+        ctx.beginPath();
+        ctx.moveTo(pos.x, pos.y);
+        ctx.lineTo(pos.x - vel.x * 2, pos.y - vel.y * 2);
+        ctx.stroke();
+        ctx.lineWidth = 1;
+      } else if (particle.shape === 'debris') {
+        ctx.fillRect(pos.x - r.size / 2, pos.y - r.size / 4, r.size, r.size / 2);
+      } else {
+        ctx.beginPath();
+        ctx.arc(pos.x, pos.y, r.size / 2, 0, Math.PI * 2);
+        ctx.fill();
+      }
+      return;
+    }
+
+    // 種類の分からないものは色付きの四角
+    ctx.fillStyle = r.color;
+    ctx.fillRect(pos.x - r.size / 2, pos.y - r.size / 2, r.size, r.size);
+  }
+
+  // 回転させない付属物（シールドのリング・HP バー）。sprite でもベクターでも描く
+  private drawDecorations(game: Game, e: Entity) {
+    const ctx = this.ctx;
+    const pos = e.get(Position)!;
+    const r = e.get(Render)!;
+    const player = e.get(Player);
+    if (player && player.shield > 0) {
+      ctx.strokeStyle = PICKUP_DEFS.shield.color;
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.arc(pos.x, pos.y, r.size * 0.8, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.lineWidth = 1;
+    }
+    // 硬い敵は削れたら HP バーを出す
+    const health = e.get(Health);
+    if (e.has(Enemy) && health && health.maxHp >= 4 && health.hp < health.maxHp) {
+      ctx.fillStyle = 'rgba(0,0,0,0.6)';
+      ctx.fillRect(pos.x - r.size / 2, pos.y - r.size / 2 - 5, r.size, 3);
+      ctx.fillStyle = '#00ff88';
+      ctx.fillRect(pos.x - r.size / 2, pos.y - r.size / 2 - 5, (r.size * Math.max(0, health.hp)) / health.maxHp, 3);
+    }
+  }
+
+  // スコア / HP / ボム / ウェポン / ステージ / ボス HP
+  private drawHud(game: Game) {
+    const ctx = this.ctx;
+    ctx.fillStyle = 'rgba(255,255,255,0.9)';
+    ctx.font = 'bold 16px Arial';
+    ctx.fillText(`スコア: ${game.score}`, 10, 25);
+    ctx.fillStyle = '#ff0066';
+    for (let i = 0; i < game.hp; i++) {
+      ctx.fillText('♥', 10 + i * 20, 45);
+    }
+    ctx.fillStyle = 'rgba(255,255,255,0.3)';
+    for (let i = game.hp; i < PLAYER_MAX_HP; i++) {
+      ctx.fillText('♡', 10 + i * 20, 45);
+    }
+    const bombs = game.select(PLAYER_QUERY)[0]?.get(Player)!.bombs ?? 0;
+    ctx.fillStyle = '#88ffff';
+    ctx.font = 'bold 11px Arial';
+    ctx.fillText(`BOMB ${'●'.repeat(bombs)}`, 10, 62);
+    const weapon = game.select(PLAYER_WEAPON_QUERY)[0]?.get(Weapon);
+    if (weapon) {
+      const def = WEAPONS[weapon.type];
+      ctx.fillStyle = def.color;
+      ctx.font = 'bold 12px Arial';
+      ctx.textAlign = 'right';
+      ctx.fillText(`${def.name} Lv${weapon.level}`, game.width - 10, 54);
+      ctx.textAlign = 'left';
+    }
+    const stage = game.stage;
+    ctx.fillStyle = 'rgba(255,255,255,0.7)';
+    ctx.font = 'bold 12px Arial';
+    ctx.textAlign = 'right';
+    ctx.fillText(`STAGE ${stage.number}`, game.width - 10, 40);
+    ctx.textAlign = 'left';
+
+    // boss HP bar（phase の切り替わり位置に目盛り）
+    const boss = game.select(BOSS_HEALTH_QUERY)[0];
+    if (boss) {
+      const def = getBossDef(boss.get(Boss)!.type);
+      const health = boss.get(Health)!;
+      const x = 20;
+      const y = 78;
+      const w = game.width - 40;
+      ctx.fillStyle = 'rgba(0,0,0,0.6)';
+      ctx.fillRect(x, y, w, 8);
+      ctx.fillStyle = '#ff3355';
+      ctx.fillRect(x, y, (w * Math.max(0, health.hp)) / health.maxHp, 8);
+      ctx.fillStyle = '#ffffff';
+      for (const p of def.phases) {
+        if (p.hpBelow < 1) ctx.fillRect(x + w * p.hpBelow - 1, y, 2, 8);
+      }
+      ctx.strokeStyle = '#ffffff';
+      ctx.strokeRect(x, y, w, 8);
+      ctx.font = 'bold 10px Arial';
+      ctx.fillText(def.name, x, y - 3);
+    }
+  }
+
+  // ====== 状態ごとの画面 ======
+  // GameState を足したらここにも足す（Record なので漏れは型エラーになる）
+  private overlays: Record<GameState, (game: Game) => void> = {
+    loading: game => this.drawLoading(game),
+    title: game => this.drawTitle(game),
+    playing: game => this.drawPlaying(game),
+    paused: game => this.drawPaused(game),
+    stageClear: game => this.drawStageClear(game),
+    gameOver: game => this.drawGameOver(game),
+    results: game => this.drawResults(game),
+  };
+
+  // アセット読み込み中のバー
+  private drawLoading(game: Game) {
+    const ctx = this.ctx;
+    const w = game.width * 0.6;
+    const x = (game.width - w) / 2;
+    const y = game.height / 2;
+    ctx.textAlign = 'center';
+    ctx.font = 'bold 14px Arial';
+    ctx.fillStyle = '#ffffff';
+    ctx.fillText('LOADING', game.width / 2, y - 12);
+    ctx.textAlign = 'left';
+    ctx.fillStyle = 'rgba(255,255,255,0.2)';
+    ctx.fillRect(x, y, w, 6);
+    ctx.fillStyle = '#00ffff';
+    ctx.fillRect(x, y, w * Math.max(0, Math.min(1, game.loadProgress)), 6);
+  }
+
+  private drawTitle(game: Game) {
+    const ctx = this.ctx;
+    ctx.fillStyle = 'rgba(0,0,17,0.5)';
+    ctx.fillRect(0, 0, game.width, game.height);
+    ctx.textAlign = 'center';
+    ctx.font = 'bold 34px Arial';
+    ctx.fillStyle = '#00ffff';
+    ctx.fillText('SPACE', game.width / 2, game.height * 0.3);
+    ctx.fillStyle = '#ffff00';
+    ctx.fillText('SHOOTER', game.width / 2, game.height * 0.3 + 38);
+    // 点滅する案内
+    if (Math.floor(game.stateMs / 500) % 2 === 0) {
+      ctx.font = '14px Arial';
+      ctx.fillStyle = '#ffffff';
+      ctx.fillText('Enter / タップでスタート', game.width / 2, game.height * 0.48);
+    }
+    ctx.textAlign = 'left';
+  }
+
+  // ステージ開始バナーと WARNING
+  private drawPlaying(game: Game) {
+    const stage = game.stage;
+    if (stage.bossState === 'warning' && Math.floor(stage.bossTimer / 15) % 2 === 0) {
+      const ctx = this.ctx;
+      ctx.textAlign = 'center';
+      ctx.font = 'bold 30px Arial';
+      ctx.fillStyle = '#ff2222';
+      ctx.fillText('WARNING', game.width / 2, game.height / 2 - 40);
+      ctx.textAlign = 'left';
+    }
+    if (stage.t < STAGE_BANNER_TICKS) this.drawBanner(game, `STAGE ${stage.number}`, stage.def.name, '#00ffff');
+  }
+
+  private drawStageClear(game: Game) {
+    this.drawBanner(game, 'STAGE CLEAR', `BONUS +${game.stage.def.clearBonus}`, '#ffff00');
+  }
+
+  private drawBanner(game: Game, title: string, sub: string, color: string) {
+    const ctx = this.ctx;
+    ctx.textAlign = 'center';
+    ctx.strokeStyle = 'black';
+    ctx.lineWidth = 2;
+    ctx.font = 'bold 26px Arial';
+    ctx.fillStyle = color;
+    ctx.strokeText(title, game.width / 2, game.height / 2 - 40);
+    ctx.fillText(title, game.width / 2, game.height / 2 - 40);
+    ctx.font = '14px Arial';
+    ctx.fillStyle = '#ffffff';
+    ctx.fillText(sub, game.width / 2, game.height / 2 - 15);
+    ctx.textAlign = 'left';
+    ctx.lineWidth = 1;
+  }
+
+  private drawPaused(game: Game) {
+    const ctx = this.ctx;
+    ctx.fillStyle = 'rgba(0,0,0,0.6)';
+    ctx.fillRect(0, 0, game.width, game.height);
+    ctx.textAlign = 'center';
+    ctx.font = 'bold 30px Arial';
+    ctx.fillStyle = '#ffffff';
+    ctx.fillText('PAUSE', game.width / 2, game.height * 0.4);
+    ctx.font = '12px Arial';
+    ctx.fillStyle = '#cccccc';
+    ctx.fillText('Esc / P で再開', game.width / 2, game.height * 0.4 + 24);
+    ctx.textAlign = 'left';
+  }
+
+  // コンティニューのカウントダウン
+  private drawGameOver(game: Game) {
+    const ctx = this.ctx;
+    ctx.fillStyle = 'rgba(0,0,0,0.6)';
+    ctx.fillRect(0, 0, game.width, game.height);
+    ctx.textAlign = 'center';
+    ctx.fillStyle = '#00ffff';
+    ctx.font = 'bold 26px Arial';
+    ctx.fillText('CONTINUE?', game.width / 2, game.height / 2 - 50);
+    ctx.fillStyle = '#ffffff';
+    ctx.font = 'bold 56px Arial';
+    ctx.fillText(String(Math.ceil(game.continueTimer / TICKS_PER_SECOND)), game.width / 2, game.height / 2 + 10);
+    ctx.font = 'bold 16px Arial';
+    ctx.fillStyle = '#ffff00';
+    ctx.fillText(`SCORE: ${game.score}`, game.width / 2, game.height / 2 + 40);
+    ctx.font = '14px Arial';
+    ctx.fillStyle = '#cccccc';
+    ctx.fillText('タップ / スペースでコンティニュー', game.width / 2, game.height / 2 + 66);
+    ctx.textAlign = 'left';
+  }
+
+  private drawResults(game: Game) {
+    const ctx = this.ctx;
+    const gradient = ctx.createRadialGradient(game.width / 2, game.height / 2, 0, game.width / 2, game.height / 2, Math.max(game.width, game.height));
+    gradient.addColorStop(0, 'rgba(255,0,0,0.1)');
+    gradient.addColorStop(1, 'rgba(0,0,0,0.8)');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, game.width, game.height);
+    ctx.fillStyle = 'white';
+    ctx.font = 'bold 28px Arial';
+    ctx.textAlign = 'center';
+    ctx.strokeStyle = 'black';
+    ctx.lineWidth = 2;
+    ctx.strokeText('GAME OVER', game.width / 2, game.height * 0.25);
+    ctx.fillText('GAME OVER', game.width / 2, game.height * 0.25);
+    ctx.font = 'bold 18px Arial';
+    ctx.fillStyle = '#ffff00';
+    ctx.strokeText(`SCORE: ${game.score}`, game.width / 2, game.height * 0.25 + 36);
+    ctx.fillText(`SCORE: ${game.score}`, game.width / 2, game.height * 0.25 + 36);
+    const seconds = Math.floor(game.tick / TICKS_PER_SECOND);
+    const lines = [
+      `STAGE ${game.stage.number}`,
+      `TIME ${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`,
+      `CONTINUE ${game.continues}`,
+    ];
+    ctx.font = '14px Arial';
+    ctx.fillStyle = '#cccccc';
+    lines.forEach((line, i) => ctx.fillText(line, game.width / 2, game.height * 0.25 + 66 + i * 20));
+    ctx.textAlign = 'left';
+    ctx.lineWidth = 1;
+  }
+
+  // 選択中の項目を強調して描く（配置は states.ts の menuItemRect）
+  private drawMenu(game: Game) {
+    const ctx = this.ctx;
+    ctx.textAlign = 'center';
+    ctx.font = 'bold 16px Arial';
+    game.menu.forEach((item, i) => {
+      const r = menuItemRect(game, i);
+      const selected = i === game.menuIndex;
+      ctx.fillStyle = selected ? 'rgba(0,255,255,0.25)' : 'rgba(255,255,255,0.08)';
+      ctx.fillRect(r.x, r.y, r.w, r.h);
+      ctx.strokeStyle = selected ? '#00ffff' : 'rgba(255,255,255,0.4)';
+      ctx.strokeRect(r.x, r.y, r.w, r.h);
+      ctx.fillStyle = selected ? '#ffffff' : '#aaaaaa';
+      ctx.fillText(selected ? `▶ ${item.label}` : item.label, r.x + r.w / 2, r.y + r.h / 2 + 6);
+    });
+    ctx.textAlign = 'left';
+  }
+}
@@ -0,0 +1,51 @@
+import { Collider, Position } from '../components';
+import type { Game } from '../game';
+import { defineQuery } from '../ecs';
+
+const COLLIDER_POSITION_QUERY = defineQuery(Collider, Position);
+
+// ====== デバッグオーバーレイ ======
+// 当たり判定の枠と、system ごとの今フレームの処理時間 (ms) / 対象 entity 数を表示する
+export function drawDebugOverlay(ctx: CanvasRenderingContext2D, game: Game) {
+  drawColliders(ctx, game);
+
+  const stats = game.scheduler.stats(game);
+  const lineH = 12;
+  const lines = stats.length + 2;
+  const x = 6;
+  const y = game.height - lines * lineH - 10;
+
+  ctx.save();
+  ctx.fillStyle = 'rgba(0,0,0,0.6)';
+  ctx.fillRect(x - 4, y - 4, 190, lines * lineH + 8);
+  ctx.font = '10px monospace';
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'top';
+
+  ctx.fillStyle = '#88ffff';
+  ctx.fillText(`tick ${game.tick}  entities ${game.entityCount}`, x, y);
+  stats.forEach((s, i) => {
+    ctx.fillStyle = s.enabled ? '#ffffff' : '#777777';
+    const ms = s.ms.toFixed(2).padStart(6);
+    const n = s.entities ? String(s.entities).padStart(4) : '    ';
+    ctx.fillText(`${s.name.padEnd(14)}${ms}ms ${n} x${s.runs}`, x, y + (i + 1) * lineH);
+  });
+  ctx.fillStyle = '#ffff88';
+  ctx.fillText(`${'Render'.padEnd(14)}${game.renderMs.toFixed(2).padStart(6)}ms`, x, y + (stats.length + 1) * lineH);
+  ctx.restore();
+}
+
+function drawColliders(ctx: CanvasRenderingContext2D, game: Game) {
+  ctx.save();
+  ctx.strokeStyle = 'rgba(0,255,255,0.8)';
+  ctx.lineWidth = 1;
+  for (const e of game.select(COLLIDER_POSITION_QUERY)) {
+    const pos = e.get(Position)!;
+    const c = e.get(Collider)!;
+    ctx.beginPath();
+    if (c.kind === 'circle') ctx.arc(pos.x, pos.y, c.r, 0, Math.PI * 2);
+    else ctx.rect(pos.x - c.w / 2, pos.y - c.h / 2, c.w, c.h);
+    ctx.stroke();
+  }
+  ctx.restore();
+}
@@ -0,0 +1,30 @@
+import { Lifetime, Particle, Player, Position, Render } from '../components';
+import { defineQuery, type Entity } from '../ecs';
+import type { Game } from '../game';
+
+const POSITION_RENDER_QUERY = defineQuery(Position, Render);
+
+// ====== ワールドの描画順 ======
+// Canvas2D / WebGL のどちらも同じ順・同じ条件で描く
+
+// 同じ layer は Entity.seq で並べる（クエリの並びは破棄のたびに swap-remove で入れ替わり、重なりの上下がちらつく）
+const byLayer = (a: Entity, b: Entity) => (a.get(Render)!.layer ?? 0) - (b.get(Render)!.layer ?? 0) || a.seq - b.seq;
+
+// 描くものを layer の小さい順（同じ layer は生成順）に out へ詰める。out は呼び出し側で使い回す
+export function collectDrawList(game: Game, out: Entity[]) {
+  out.length = 0;
+  for (const e of game.select(POSITION_RENDER_QUERY)) {
+    if (isVisible(e)) out.push(e);
+  }
+  out.sort(byLayer);
+  return out;
+}
+
+function isVisible(e: Entity) {
+  // プールで待機中のパーティクル
+  if (e.has(Particle) && !e.has(Lifetime)) return false;
+  // 撃墜後は描かない / 無敵中は点滅
+  const player = e.get(Player);
+  if (player && (player.health <= 0 || (player.invuln > 0 && Math.floor(player.invuln / 4) % 2 === 1))) return false;
+  return true;
+}
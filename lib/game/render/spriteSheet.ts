@@ -0,0 +1,203 @@
+import { PICKUP_DEFS } from '../data/pickups';
+import type { AtlasFrame, TextureAtlas } from './atlas';
+
+// ====== WebGL 用の 1 枚テクスチャ ======
+// 上段に白い図形（色は頂点カラーで付ける）、その下にスプライトアトラスの画像をそのまま貼る。
+// テクスチャを 1 枚にしておけば、図形とスプライトが混ざっても draw call を分けずに済む
+
+export const SHAPES = [
+  'circle',
+  'glow', // 中心から外へ薄くなる円（加算で光らせる）
+  'square',
+  'squareOutline',
+  'ship',
+  'shipOutline',
+  'capsule',
+  'capsuleOutline',
+  'triangle', // 上向き
+  'ring',
+  'flame', // 下向きの三角
+] as const;
+export type Shape = (typeof SHAPES)[number];
+
+// テクスチャ上の矩形 (0..1)
+export type UvRect = { u0: number; v0: number; u1: number; v1: number };
+
+const CELL = 64;
+const PAD = 2; // 隣のセルがにじまないように空ける
+const CONTENT = CELL - PAD * 2;
+const CELLS_PER_ROW = 16;
+
+type Path = (ctx: CanvasRenderingContext2D, s: number) => void;
+
+// CONTENT × CONTENT の中に描く（左上原点）。図形の端がちょうどセルの内側の端になるようにする
+const SHAPE_PATHS: Record<Shape, Path> = {
+  circle: (ctx, s) => {
+    ctx.beginPath();
+    ctx.arc(s / 2, s / 2, s / 2, 0, Math.PI * 2);
+    ctx.fill();
+  },
+  glow: (ctx, s) => {
+    const g = ctx.createRadialGradient(s / 2, s / 2, 0, s / 2, s / 2, s / 2);
+    g.addColorStop(0, 'rgba(255,255,255,1)');
+    g.addColorStop(0.35, 'rgba(255,255,255,0.45)');
+    g.addColorStop(1, 'rgba(255,255,255,0)');
+    ctx.fillStyle = g;
+    ctx.fillRect(0, 0, s, s);
+  },
+  square: (ctx, s) => ctx.fillRect(0, 0, s, s),
+  squareOutline: (ctx, s) => {
+    ctx.lineWidth = 3;
+    ctx.strokeRect(1.5, 1.5, s - 3, s - 3);
+  },
+  ship: (ctx, s) => {
+    shipPath(ctx, s);
+    ctx.fill();
+  },
+  shipOutline: (ctx, s) => {
+    ctx.lineWidth = 3;
+    shipPath(ctx, s);
+    ctx.stroke();
+  },
+  capsule: (ctx, s) => {
+    capsulePath(ctx, s);
+    ctx.fill();
+  },
+  capsuleOutline: (ctx, s) => {
+    ctx.lineWidth = 4;
+    capsulePath(ctx, s);
+    ctx.stroke();
+  },
+  triangle: (ctx, s) => {
+    ctx.beginPath();
+    ctx.moveTo(s / 2, 0);
+    ctx.lineTo(s, s);
+    ctx.lineTo(0, s);
+    ctx.closePath();
+    ctx.fill();
+  },
+  ring: (ctx, s) => {
+    ctx.lineWidth = 4;
+    ctx.beginPath();
+    ctx.arc(s / 2, s / 2, s / 2 - 2, 0, Math.PI * 2);
+    ctx.stroke();
+  },
+  flame: (ctx, s) => {
+    ctx.beginPath();
+    ctx.moveTo(0, 0);
+    ctx.lineTo(s, 0);
+    ctx.lineTo(s / 2, s);
+    ctx.closePath();
+    ctx.fill();
+  },
+};
+
+// CanvasRenderer の自機と同じ形（幅は size * 2/3）
+function shipPath(ctx: CanvasRenderingContext2D, s: number) {
+  ctx.beginPath();
+  ctx.moveTo(s / 2, 2);
+  ctx.lineTo(2, s - 2);
+  ctx.lineTo(s / 2, s * 0.75);
+  ctx.lineTo(s - 2, s - 2);
+  ctx.closePath();
+}
+
+// 横長（幅 1.5 : 高さ 1）のカプセルを正方形のセルに縦を潰して描く。quad の縦横比で元に戻る
+function capsulePath(ctx: CanvasRenderingContext2D, s: number) {
+  const r = s / 3;
+  ctx.save();
+  ctx.scale(1, 1.5);
+  ctx.beginPath();
+  ctx.arc(r + 2, r, r - 2, Math.PI / 2, (Math.PI * 3) / 2);
+  ctx.arc(s - r - 2, r, r - 2, -Math.PI / 2, Math.PI / 2);
+  ctx.closePath();
+  ctx.restore();
+}
+
+// pickup のラベル（白で描いて頂点カラーで黒くする）
+const GLYPHS = Object.values(PICKUP_DEFS).map(def => def.label);
+
+export class SpriteSheet {
+  readonly canvas: HTMLCanvasElement;
+  private shapes = new Map<string, UvRect>();
+  private glyphs = new Map<string, UvRect>();
+  private frames = new Map<AtlasFrame, UvRect>();
+  private atlasTop: number;
+
+  constructor(atlas: TextureAtlas | null) {
+    const cells = SHAPES.length + GLYPHS.length;
+    const shapeRows = Math.ceil(cells / CELLS_PER_ROW);
+    let atlasW = 0;
+    let atlasH = 0;
+    if (atlas) {
+      const frames = atlas.data.frames;
+      for (const name of Object.keys(frames)) {
+        atlasW = Math.max(atlasW, frames[name].x + frames[name].w);
+        atlasH = Math.max(atlasH, frames[name].y + frames[name].h);
+      }
+    }
+    this.atlasTop = shapeRows * CELL;
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(CELLS_PER_ROW * CELL, atlasW);
+    canvas.height = this.atlasTop + atlasH;
+    this.canvas = canvas;
+
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = '#ffffff';
+    ctx.strokeStyle = '#ffffff';
+    let cell = 0;
+    const place = (draw: Path) => {
+      const x = (cell % CELLS_PER_ROW) * CELL + PAD;
+      const y = Math.floor(cell / CELLS_PER_ROW) * CELL + PAD;
+      cell++;
+      ctx.save();
+      ctx.translate(x, y);
+      draw(ctx, CONTENT);
+      ctx.restore();
+      return this.uv(x, y, CONTENT, CONTENT);
+    };
+    for (const name of SHAPES) this.shapes.set(name, place(SHAPE_PATHS[name]));
+    for (const label of GLYPHS) {
+      this.glyphs.set(
+        label,
+        place((c, s) => {
+          c.font = `bold ${s}px Arial`;
+          c.textAlign = 'center';
+          c.textBaseline = 'middle';
+          c.fillText(label, s / 2, s / 2 + 2);
+        }),
+      );
+    }
+    if (atlas && atlasW > 0) ctx.drawImage(atlas.image, 0, this.atlasTop);
+  }
+
+  shape(name: Shape): UvRect {
+    return this.shapes.get(name)!;
+  }
+
+  // 無い文字は null（ラベル無しで描く）
+  glyph(label: string): UvRect | null {
+    return this.glyphs.get(label) ?? null;
+  }
+
+  // アトラスの frame → この 1 枚の中の UV（frame ごとにキャッシュ）
+  frame(frame: AtlasFrame): UvRect {
+    let uv = this.frames.get(frame);
+    if (!uv) {
+      uv = this.uv(frame.x, this.atlasTop + frame.y, frame.w, frame.h);
+      this.frames.set(frame, uv);
+    }
+    return uv;
+  }
+
+  // 線形補間で隣の画素を拾わないよう半画素内側を取る
+  private uv(x: number, y: number, w: number, h: number): UvRect {
+    const { width, height } = this.canvas;
+    return {
+      u0: (x + 0.5) / width,
+      v0: (y + 0.5) / height,
+      u1: (x + w - 0.5) / width,
+      v1: (y + h - 0.5) / height,
+    };
+  }
+}
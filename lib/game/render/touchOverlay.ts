@@ -0,0 +1,45 @@
+import type { Game } from '../game';
+import { JOYSTICK_RADIUS, touchButtonLayout, type TouchControls } from '../touchControls';
+
+// ====== タッチ操作の表示 ======
+// 射撃・ボムのボタン（配置は touchControls.ts の touchButtonLayout）とバーチャルスティック
+export function drawTouchControls(ctx: CanvasRenderingContext2D, game: Game, touch: TouchControls) {
+  ctx.save();
+  const stick = touch.stick;
+  if (stick) {
+    ctx.strokeStyle = 'rgba(255,255,255,0.35)';
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.arc(stick.base.x, stick.base.y, JOYSTICK_RADIUS, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.fillStyle = 'rgba(255,255,255,0.3)';
+    ctx.beginPath();
+    ctx.arc(stick.knob.x, stick.knob.y, 16, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  if (touch.showButtons) {
+    const layout = touchButtonLayout(game);
+    const buttons = [
+      { key: 'fire', label: 'SHOT', color: '0,255,255' },
+      { key: 'bomb', label: 'BOMB', color: '255,170,0' },
+    ] as const;
+    ctx.font = 'bold 10px Arial';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    for (const b of buttons) {
+      const c = layout[b.key];
+      const held = touch.held(b.key);
+      ctx.fillStyle = `rgba(${b.color},${held ? 0.45 : 0.15})`;
+      ctx.strokeStyle = `rgba(${b.color},0.6)`;
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.arc(c.x, c.y, c.r, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.stroke();
+      ctx.fillStyle = 'rgba(255,255,255,0.8)';
+      ctx.fillText(b.label, c.x, c.y);
+    }
+  }
+  ctx.restore();
+}
@@ -0,0 +1,17 @@
+import type { Game } from '../game';
+
+// 描画バックエンド。Game の状態を読むだけで、シミュレーションには触れない
+export interface Renderer {
+  render(game: Game): void;
+}
+
+// 設定で選べる描画方式。webgl が使えない環境では canvas で描く
+export const RENDERER_KINDS = ['canvas', 'webgl'] as const;
+export type RendererKind = (typeof RENDERER_KINDS)[number];
+
+export const RENDERER_LABELS: Record<RendererKind, string> = {
+  canvas: 'Canvas2D',
+  webgl: 'WebGL',
+};
+
+export const isRendererKind = (v: unknown): v is RendererKind => RENDERER_KINDS.includes(v as RendererKind);
@@ -0,0 +1,56 @@
+import { createVector2, type Vec2 } from '../math';
+
+// ====== 表示サイズの計算 ======
+// 論理プレイフィールド（Game.width × height）を、使える表示領域 (CSS px) にどう載せるか。
+// canvas 自体をその大きさにして中央に置くので、canvas の中に余白（レターボックス）は生まれない。
+// backing store は devicePixelRatio 倍にして高 DPI でもぼやけないようにする
+//   fit:     縦横比を保って収まる最大サイズ
+//   integer: 縦横比を保ち、デバイスピクセルで整数倍（ドットがにじまない）
+//   stretch: 表示領域いっぱいに引き伸ばす（縦横比は崩れる）
+export const SCALE_MODES = ['fit', 'integer', 'stretch'] as const;
+export type ScaleMode = (typeof SCALE_MODES)[number];
+
+export const SCALE_MODE_LABELS: Record<ScaleMode, string> = {
+  fit: 'フィット',
+  integer: '整数倍',
+  stretch: '引き伸ばし',
+};
+
+export const isScaleMode = (v: unknown): v is ScaleMode => SCALE_MODES.includes(v as ScaleMode);
+
+export type Size = { width: number; height: number };
+
+export type Viewport = {
+  cssWidth: number; // canvas の表示サイズ (CSS px)
+  cssHeight: number;
+  pixelWidth: number; // canvas.width / height（デバイス px）
+  pixelHeight: number;
+};
+
+export function computeViewport(avail: Size, field: Size, mode: ScaleMode, dpr = 1): Viewport {
+  const aw = Math.max(1, avail.width);
+  const ah = Math.max(1, avail.height);
+  let cssWidth: number;
+  let cssHeight: number;
+  if (mode === 'stretch') {
+    cssWidth = aw;
+    cssHeight = ah;
+  } else {
+    let scale = Math.min(aw / field.width, ah / field.height);
+    // デバイス px で整数倍（1 倍でも収まらなければ fit と同じ）
+    if (mode === 'integer' && scale * dpr >= 1) scale = Math.floor(scale * dpr) / dpr;
+    cssWidth = field.width * scale;
+    cssHeight = field.height * scale;
+  }
+  return {
+    cssWidth,
+    cssHeight,
+    pixelWidth: Math.max(1, Math.round(cssWidth * dpr)),
+    pixelHeight: Math.max(1, Math.round(cssHeight * dpr)),
+  };
+}
+
+// canvas の表示領域内の座標 (CSS px、左上原点) → 論理座標
+export function toPlayfield(x: number, y: number, box: Size, field: Size): Vec2 {
+  return createVector2((x / box.width) * field.width, (y / box.height) * field.height);
+}
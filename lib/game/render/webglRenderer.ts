@@ -0,0 +1,405 @@
+import { Boss, BossPart, Bullet, Enemy, Health, Particle, Pickup, Player, Position, Render, Star, Velocity } from '../components';
+import { getBossDef } from '../data/bosses';
+import { PICKUP_DEFS } from '../data/pickups';
+import type { Entity } from '../ecs';
+import type { Game } from '../game';
+import type { TextureAtlas } from './atlas';
+import type { CanvasRenderer } from './canvasRenderer';
+import { collectDrawList } from './drawList';
+import { SpriteSheet, type Shape, type UvRect } from './spriteSheet';
+import type { Renderer } from './types';
+
+// ====== WebGL レンダラー ======
+// ワールド（自機・敵・弾・パーティクル）を全部 quad にして 1 枚のテクスチャ（SpriteSheet）から描く。
+// 通常の合成と加算（弾の光・被弾の光り）の 2 つのバッチに溜めて、それぞれ 1 回の draw call で流す。
+// 文字が多い HUD / メニューは重ねた 2D canvas に CanvasRenderer.renderScreen で描く
+
+const VERTEX_SHADER = `
+attribute vec2 aPos;
+attribute vec2 aUv;
+attribute vec4 aColor;
+uniform vec2 uView;
+uniform vec2 uOffset;
+varying vec2 vUv;
+varying vec4 vColor;
+void main() {
+  vec2 p = (aPos + uOffset) / uView * 2.0 - 1.0;
+  gl_Position = vec4(p.x, -p.y, 0.0, 1.0);
+  vUv = aUv;
+  vColor = aColor;
+}`;
+
+// 色は乗算済みアルファで持つ（通常: ONE / ONE_MINUS_SRC_ALPHA、加算: ONE / ONE）
+const FRAGMENT_SHADER = `
+precision mediump float;
+uniform sampler2D uTex;
+varying vec2 vUv;
+varying vec4 vColor;
+void main() {
+  gl_FragColor = texture2D(uTex, vUv) * vColor;
+}`;
+
+const FLOATS_PER_VERTEX = 8; // x, y, u, v, r, g, b, a
+const MAX_QUADS = 4096; // 1 回の draw call の上限（超えたら途中で流す）
+const CLEAR_COLOR = [0, 0, 17 / 255] as const; // CanvasRenderer の #000011
+
+// 1 回の draw call ぶんの頂点。配列は作り直さずに使い回す
+class QuadBatch {
+  readonly data = new Float32Array(MAX_QUADS * 4 * FLOATS_PER_VERTEX);
+  count = 0;
+
+  constructor(readonly additive: boolean) {}
+
+  get full() {
+    return this.count >= MAX_QUADS;
+  }
+}
+
+// '#rgb' / '#rrggbb' → 0..1 の RGB（読めない色は白）。同じ文字列は 1 回だけ解析する
+const colorCache = new Map<string, readonly [number, number, number]>();
+function parseColor(css: string) {
+  let rgb = colorCache.get(css);
+  if (!rgb) {
+    const hex = css.startsWith('#') ? css.slice(1) : '';
+    const full = hex.length === 3 ? hex.replace(/./g, c => c + c) : hex;
+    const n = full.length === 6 ? parseInt(full, 16) : NaN;
+    rgb = Number.isNaN(n) ? [1, 1, 1] : [((n >> 16) & 255) / 255, ((n >> 8) & 255) / 255, (n & 255) / 255];
+    colorCache.set(css, rgb);
+  }
+  return rgb;
+}
+
+function compile(gl: WebGLRenderingContext, type: number, source: string) {
+  const shader = gl.createShader(type);
+  if (!shader) return null;
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    console.warn(gl.getShaderInfoLog(shader));
+    gl.deleteShader(shader);
+    return null;
+  }
+  return shader;
+}
+
+export class WebGLRenderer implements Renderer {
+  private normal = new QuadBatch(false);
+  private glow = new QuadBatch(true);
+  private drawList: Entity[] = [];
+  private sheet: SpriteSheet | null = null;
+  private sheetAtlas: TextureAtlas | null = null;
+  private texture: WebGLTexture | null = null;
+  private vertexBuffer: WebGLBuffer | null;
+  private indexBuffer: WebGLBuffer | null;
+  private uView: WebGLUniformLocation | null;
+  private uOffset: WebGLUniformLocation | null;
+  private lostContext = false;
+
+  // WebGL が使えない（context が取れない・shader が通らない）ときは null。呼び出し側は Canvas2D に戻す
+  static create(canvas: HTMLCanvasElement, screen: CanvasRenderer): WebGLRenderer | null {
+    const options = { alpha: false, antialias: false, premultipliedAlpha: true };
+    const gl = (canvas.getContext('webgl', options) ??
+      canvas.getContext('experimental-webgl', options)) as WebGLRenderingContext | null;
+    if (!gl || gl.isContextLost()) return null;
+    const vs = compile(gl, gl.VERTEX_SHADER, VERTEX_SHADER);
+    const fs = compile(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER);
+    const program = gl.createProgram();
+    if (!vs || !fs || !program) return null;
+    gl.attachShader(program, vs);
+    gl.attachShader(program, fs);
+    gl.linkProgram(program);
+    gl.deleteShader(vs);
+    gl.deleteShader(fs);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      console.warn(gl.getProgramInfoLog(program));
+      gl.deleteProgram(program);
+      return null;
+    }
+    return new WebGLRenderer(gl, program, screen);
+  }
+
+  private constructor(
+    private gl: WebGLRenderingContext,
+    private program: WebGLProgram,
+    // HUD・メニューを描く 2D の canvas（WebGL の canvas の上に重ねる）
+    readonly screen: CanvasRenderer,
+  ) {
+    gl.useProgram(program);
+    this.uView = gl.getUniformLocation(program, 'uView');
+    this.uOffset = gl.getUniformLocation(program, 'uOffset');
+
+    // 頂点バッファ（毎フレーム中身だけ入れ替える）と、全 quad 共通のインデックス
+    const stride = FLOATS_PER_VERTEX * 4;
+    this.vertexBuffer = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.vertexBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, this.normal.data.byteLength, gl.DYNAMIC_DRAW);
+    const attrib = (name: string, size: number, offset: number) => {
+      const loc = gl.getAttribLocation(program, name);
+      gl.enableVertexAttribArray(loc);
+      gl.vertexAttribPointer(loc, size, gl.FLOAT, false, stride, offset * 4);
+    };
+    attrib('aPos', 2, 0);
+    attrib('aUv', 2, 2);
+    attrib('aColor', 4, 4);
+    const indices = new Uint16Array(MAX_QUADS * 6);
+    for (let i = 0; i < MAX_QUADS; i++) {
+      indices.set([i * 4, i * 4 + 1, i * 4 + 2, i * 4, i * 4 + 2, i * 4 + 3], i * 6);
+    }
+    this.indexBuffer = gl.createBuffer();
+    gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, this.indexBuffer);
+    gl.bufferData(gl.ELEMENT_ARRAY_BUFFER, indices, gl.STATIC_DRAW);
+
+    gl.enable(gl.BLEND);
+    gl.disable(gl.DEPTH_TEST);
+    gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, true);
+    gl.uniform1i(gl.getUniformLocation(program, 'uTex'), 0);
+
+    // context を失ったら復旧は待たずに Canvas2D へ戻してもらう
+    gl.canvas.addEventListener('webglcontextlost', this.onContextLost);
+  }
+
+  // context を失った（GPU のリセットなど）。以降は何も描かないので呼び出し側で差し替える
+  get lost() {
+    return this.lostContext;
+  }
+
+  render(game: Game) {
+    const gl = this.gl;
+    if (this.lostContext) return;
+    const atlas = this.screen.atlas;
+    if (!this.sheet || this.sheetAtlas !== atlas) this.buildTexture(atlas);
+
+    const canvas = gl.canvas;
+    gl.viewport(0, 0, canvas.width, canvas.height);
+    gl.clearColor(CLEAR_COLOR[0], CLEAR_COLOR[1], CLEAR_COLOR[2], 1);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    gl.uniform2f(this.uView, game.width, game.height);
+    // screen shake: ワールドだけを揺らす（CanvasRenderer と同じ）
+    const shake = game.fx.shake;
+    gl.uniform2f(this.uOffset, shake > 0 ? (Math.random() * 2 - 1) * shake : 0, shake > 0 ? (Math.random() * 2 - 1) * shake : 0);
+
+    for (const e of collectDrawList(game, this.drawList)) this.drawEntity(game, e);
+    this.drawList.length = 0;
+    this.flush(this.normal);
+    this.flush(this.glow);
+
+    this.screen.renderScreen(game);
+  }
+
+  dispose() {
+    const gl = this.gl;
+    gl.canvas.removeEventListener('webglcontextlost', this.onContextLost);
+    if (this.texture) gl.deleteTexture(this.texture);
+    gl.deleteBuffer(this.vertexBuffer);
+    gl.deleteBuffer(this.indexBuffer);
+    gl.deleteProgram(this.program);
+    this.texture = null;
+    this.sheet = null;
+  }
+
+  private onContextLost = (e: Event) => {
+    e.preventDefault();
+    this.lostContext = true;
+  };
+
+  // 図形 + アトラスを 1 枚にしてテクスチャへ（アトラスが読み終わったときに作り直す）
+  private buildTexture(atlas: TextureAtlas | null) {
+    const gl = this.gl;
+    const sheet = new SpriteSheet(atlas);
+    if (!this.texture) this.texture = gl.createTexture();
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, this.texture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, sheet.canvas);
+    // 2 の累乗でないサイズなので mipmap 無し・端は clamp
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    this.sheet = sheet;
+    this.sheetAtlas = atlas;
+  }
+
+  private flush(batch: QuadBatch) {
+    if (!batch.count) return;
+    const gl = this.gl;
+    if (batch.additive) gl.blendFunc(gl.ONE, gl.ONE);
+    else gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+    gl.bufferSubData(gl.ARRAY_BUFFER, 0, batch.data.subarray(0, batch.count * 4 * FLOATS_PER_VERTEX));
+    gl.drawElements(gl.TRIANGLES, batch.count * 6, gl.UNSIGNED_SHORT, 0);
+    batch.count = 0;
+  }
+
+  // (cx, cy) を中心に w × h、rotation だけ回した quad を 1 枚積む
+  private quad(batch: QuadBatch, uv: UvRect, cx: number, cy: number, w: number, h: number, rotation: number, color: string, alpha: number) {
+    if (batch.full) this.flush(batch);
+    const [r, g, b] = parseColor(color);
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    const hw = w / 2;
+    const hh = h / 2;
+    const d = batch.data;
+    let i = batch.count * 4 * FLOATS_PER_VERTEX;
+    // 左上 → 右上 → 右下 → 左下
+    for (let k = 0; k < 4; k++) {
+      const lx = k === 0 || k === 3 ? -hw : hw;
+      const ly = k < 2 ? -hh : hh;
+      d[i++] = cx + lx * cos - ly * sin;
+      d[i++] = cy + lx * sin + ly * cos;
+      d[i++] = lx < 0 ? uv.u0 : uv.u1;
+      d[i++] = ly < 0 ? uv.v0 : uv.v1;
+      d[i++] = r * alpha;
+      d[i++] = g * alpha;
+      d[i++] = b * alpha;
+      d[i++] = alpha;
+    }
+    batch.count++;
+  }
+
+  private shape(batch: QuadBatch, shape: Shape, cx: number, cy: number, w: number, h: number, rotation: number, color: string, alpha: number) {
+    this.quad(batch, this.sheet!.shape(shape), cx, cy, w, h, rotation, color, alpha);
+  }
+
+  // ====== ワールドの 1 体（CanvasRenderer.drawEntity と同じ見た目になるように） ======
+  private drawEntity(game: Game, e: Entity) {
+    const pos = e.get(Position)!;
+    const r = e.get(Render)!;
+    const rotation = r.rotation ?? 0;
+    const scale = r.scale ?? 1;
+    const alpha = r.alpha ?? 1;
+    const health = e.get(Health);
+    const flash = !!health && health.flash > 0;
+
+    const atlas = this.screen.atlas;
+    const frame = r.sprite && atlas ? atlas.frame(r.sprite, game.tick) : null;
+    if (frame && atlas) {
+      const uv = this.sheet!.frame(frame);
+      const w = (frame.w / atlas.data.scale) * scale;
+      const h = (frame.h / atlas.data.scale) * scale;
+      this.quad(this.normal, uv, pos.x, pos.y, w, h, rotation, '#ffffff', alpha);
+      // hit flash: 同じ sprite を加算で重ねる
+      if (flash) this.quad(this.glow, uv, pos.x, pos.y, w, h, rotation, '#ffffff', alpha);
+    } else {
+      this.drawVector(game, e, rotation, scale, alpha, flash);
+    }
+    this.drawDecorations(e);
+  }
+
+  private drawVector(game: Game, e: Entity, rotation: number, scale: number, alpha: number, flash: boolean) {
+    const pos = e.get(Position)!;
+    const r = e.get(Render)!;
+    const size = r.size * scale;
+    const { normal, glow } = this;
+
+    const star = e.get(Star);
+    if (star) {
+      this.shape(normal, 'circle', pos.x, pos.y, size, size, 0, '#ffffff', star.brightness * alpha);
+      return;
+    }
+
+    if (e.has(Player)) {
+      const w = (size * 2) / 3;
+      this.shape(normal, 'ship', pos.x, pos.y, w, size, rotation, r.color, alpha);
+      this.shape(normal, 'shipOutline', pos.x, pos.y, w, size, rotation, '#ffffff', alpha);
+      const vel = e.get(Velocity);
+      if (vel && (Math.abs(vel.x) > 0.5 || Math.abs(vel.y) > 0.5)) {
+        this.shape(normal, 'flame', pos.x, pos.y + size / 2 + 4, 6, 8, 0, '#ff6600', alpha);
+      }
+      return;
+    }
+
+    // pickups: ラベル付きのカプセル
+    const pickup = e.get(Pickup);
+    if (pickup) {
+      this.shape(normal, 'capsule', pos.x, pos.y, size * 1.5, size, rotation, r.color, alpha);
+      this.shape(normal, 'capsuleOutline', pos.x, pos.y, size * 1.5, size, rotation, '#ffffff', alpha);
+      const glyph = this.sheet!.glyph(PICKUP_DEFS[pickup.kind].label);
+      if (glyph) this.quad(normal, glyph, pos.x, pos.y + 0.5, 10, 10, rotation, '#000000', alpha);
+      return;
+    }
+
+    // 弾は本体 + 加算の光（Canvas2D の shadowBlur の代わり）
+    const bullet = e.get(Bullet);
+    if (bullet) {
+      if (bullet.kind === 'laser') {
+        this.shape(normal, 'square', pos.x, pos.y, size, 20, rotation, r.color, alpha);
+        this.shape(glow, 'glow', pos.x, pos.y, size * 3, 28, rotation, r.color, alpha * 0.6);
+      } else if (bullet.kind === 'missile') {
+        this.shape(normal, 'triangle', pos.x, pos.y, size * 0.84, size * 1.56, rotation, r.color, alpha);
+        this.shape(glow, 'glow', pos.x, pos.y, size * 2.5, size * 2.5, 0, r.color, alpha * 0.6);
+      } else {
+        this.shape(normal, 'circle', pos.x, pos.y, size, size, 0, r.color, alpha);
+        this.shape(glow, 'glow', pos.x, pos.y, size * 2.5, size * 2.5, 0, r.color, alpha * 0.6);
+      }
+      return;
+    }
+
+    if (e.has(Enemy)) {
+      this.shape(normal, 'square', pos.x, pos.y, size, size, rotation, flash ? '#ffffff' : r.color, alpha);
+      this.shape(normal, 'squareOutline', pos.x, pos.y, size, size, rotation, '#aa0000', alpha);
+      return;
+    }
+
+    const boss = e.get(Boss);
+    if (boss) {
+      const def = getBossDef(boss.type);
+      const w = def.w * scale;
+      const h = def.h * scale;
+      this.shape(normal, 'square', pos.x, pos.y, w, h, rotation, flash ? '#ffffff' : def.color, alpha);
+      this.shape(normal, 'squareOutline', pos.x, pos.y, w, h, rotation, '#ffffff', alpha);
+      // core
+      const core = (Math.min(w, h) * 2) / 5;
+      this.shape(normal, 'circle', pos.x, pos.y, core, core, 0, '#ffee66', alpha);
+      return;
+    }
+
+    const part = e.get(BossPart);
+    if (part) {
+      const owner = game.getEntity(part.boss);
+      if (!owner) return;
+      const def = getBossDef(owner.get(Boss)!.type).parts[part.index];
+      const w = def.w * scale;
+      const h = def.h * scale;
+      this.shape(normal, 'square', pos.x, pos.y, w, h, rotation, flash ? '#ffffff' : def.color, alpha);
+      this.shape(normal, 'squareOutline', pos.x, pos.y, w, h, rotation, '#442200', alpha);
+      return;
+    }
+
+    const particle = e.get(Particle);
+    if (particle) {
+      if (particle.shape === 'spark') {
+        // 速度の逆向きに伸びる線（pos から pos - vel * 2 まで）
+        const vel = e.get(Velocity)!;
+        const len = Math.hypot(vel.x, vel.y) * 2;
+        const a = Math.atan2(vel.y, vel.x);
+        this.shape(normal, 'square', pos.x - vel.x, pos.y - vel.y, Math.max(len, size), size, a, r.color, alpha);
+      } else if (particle.shape === 'debris') {
+        this.shape(normal, 'square', pos.x, pos.y, size, size / 2, rotation, r.color, alpha);
+      } else {
+        this.shape(normal, 'circle', pos.x, pos.y, size, size, 0, r.color, alpha);
+      }
+      return;
+    }
+
+    // 種類の分からないものは色付きの四角
+    this.shape(normal, 'square', pos.x, pos.y, size, size, rotation, r.color, alpha);
+  }
+
+  // 回転させない付属物（シールドのリング・HP バー）
+  private drawDecorations(e: Entity) {
+    const pos = e.get(Position)!;
+    const r = e.get(Render)!;
+    const player = e.get(Player);
+    if (player && player.shield > 0) {
+      this.shape(this.normal, 'ring', pos.x, pos.y, r.size * 1.6, r.size * 1.6, 0, PICKUP_DEFS.shield.color, 1);
+    }
+    // 硬い敵は削れたら HP バーを出す
+    const health = e.get(Health);
+    if (e.has(Enemy) && health && health.maxHp >= 4 && health.hp < health.maxHp) {
+      const y = pos.y - r.size / 2 - 3.5;
+      const left = pos.x - r.size / 2;
+      const w = (r.size * Math.max(0, health.hp)) / health.maxHp;
+      this.shape(this.normal, 'square', pos.x, y, r.size, 3, 0, '#000000', 0.6);
+      this.shape(this.normal, 'square', left + w / 2, y, w, 3, 0, '#00ff88', 1);
+    }
+  }
+}
@@ -0,0 +1,102 @@
+import type { InputState } from './components';
+import { GAME_HEIGHT, GAME_WIDTH } from './constants';
+import { PLAYFIELD_MAX, PLAYFIELD_MIN } from './data/playfields';
+import { createVector2, type Vec2 } from './math';
+
+// ====== リプレイ ======
+// seed と「どの tick の直前に入力がどう変わったか」だけを持つ。
+// 同じ seed から同じ tick に同じ入力を流せば同じ結果になる
+export const REPLAY_VERSION = 1;
+export type InputChange = { t: number; input: Partial<InputState> };
+export type Replay = {
+  version: number;
+  seed: number;
+  ticks: number; // 記録終了時点の tick 数
+  events: InputChange[];
+  // 論理プレイフィールドの大きさ（省略時は GAME_WIDTH × GAME_HEIGHT）
+  playfield?: { width: number; height: number };
+};
+
+export const replayPlayfield = (replay: Replay) => replay.playfield ?? { width: GAME_WIDTH, height: GAME_HEIGHT };
+
+const isPlayfieldSize = (v: number) => Number.isInteger(v) && v >= PLAYFIELD_MIN && v <= PLAYFIELD_MAX;
+
+export const cloneInput = (input: Partial<InputState>): Partial<InputState> =>
+  input.mousePos ? { ...input, mousePos: createVector2(input.mousePos.x, input.mousePos.y) } : { ...input };
+
+const isBoolean = (v: unknown) => typeof v === 'boolean';
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+// アナログスティックはデッドゾーン適用後の -1..1
+const isAxis = (v: unknown) => isFiniteNumber(v) && v >= -1 && v <= 1;
+const isPoint = (v: unknown) => !!v && typeof v === 'object' && isFiniteNumber((v as Vec2).x) && isFiniteNumber((v as Vec2).y);
+
+// InputState の各キーに入ってよい値
+const INPUT_FIELDS: Record<keyof InputState, (v: unknown) => boolean> = {
+  left: isBoolean,
+  right: isBoolean,
+  up: isBoolean,
+  down: isBoolean,
+  shoot: isBoolean,
+  bomb: isBoolean,
+  axisX: isAxis,
+  axisY: isAxis,
+  touching: isBoolean,
+  mousePos: isPoint,
+};
+export const INPUT_KEYS = Object.keys(INPUT_FIELDS) as (keyof InputState)[];
+
+// 外から来た入力 1 件の検証（不正なら例外）。リプレイの読み込み・ランキング投稿・スナップショットで共通。
+// 不正な値のまま流すと Game.applyInput や InputSystem で落ちたり、ありえない動きになったりする。
+// field を渡すと mousePos がその中（0..width × 0..height）にあるかも見る
+export const parseInput = (raw: unknown, field?: { width: number; height: number }): Partial<InputState> => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw new Error('入力が不正です');
+  const input = raw as Record<string, unknown>;
+  for (const key of Object.keys(input)) {
+    if (!Object.prototype.hasOwnProperty.call(INPUT_FIELDS, key)) throw new Error(`未知の入力です: ${key}`);
+    if (!INPUT_FIELDS[key as keyof InputState](input[key])) throw new Error(`入力 ${key} が不正です`);
+  }
+  const mp = input.mousePos as Vec2 | undefined;
+  if (mp && field && (mp.x < 0 || mp.x > field.width || mp.y < 0 || mp.y > field.height)) {
+    throw new Error('入力 mousePos がプレイフィールドの外です');
+  }
+  return cloneInput(input as Partial<InputState>);
+};
+
+// JSON から読み込んだリプレイの検証（不正なら例外）
+export const parseReplay = (data: unknown): Replay => {
+  const r = data as Replay;
+  if (!r || typeof r !== 'object') throw new Error('リプレイ形式が不正です');
+  if (r.version !== REPLAY_VERSION) throw new Error(`未対応のリプレイバージョンです: ${r.version}`);
+  if (typeof r.seed !== 'number' || typeof r.ticks !== 'number' || !Array.isArray(r.events)) {
+    throw new Error('リプレイ形式が不正です');
+  }
+  let playfield: Replay['playfield'];
+  if (r.playfield !== undefined) {
+    const pf = r.playfield;
+    if (!pf || typeof pf !== 'object' || !isPlayfieldSize(pf.width) || !isPlayfieldSize(pf.height)) {
+      throw new Error('リプレイのプレイフィールドが不正です');
+    }
+    playfield = { width: pf.width, height: pf.height };
+  }
+  const field = playfield ?? { width: GAME_WIDTH, height: GAME_HEIGHT };
+  let lastT = 0;
+  for (const ev of r.events) {
+    if (!ev || typeof ev.t !== 'number' || ev.t < lastT) throw new Error('リプレイの入力ログが不正です');
+    lastT = ev.t;
+  }
+  const events = r.events.map(ev => {
+    try {
+      return { t: ev.t, input: parseInput(ev.input, field) };
+    } catch (err) {
+      throw new Error(`リプレイの入力ログが不正です (t=${ev.t}): ${err instanceof Error ? err.message : String(err)}`);
+    }
+  });
+  const replay: Replay = {
+    version: r.version,
+    seed: r.seed >>> 0,
+    ticks: r.ticks,
+    events,
+  };
+  if (playfield) replay.playfield = playfield;
+  return replay;
+};
@@ -0,0 +1,29 @@
+// ====== 乱数 (mulberry32) ======
+// 同じ seed なら同じ列を返す。ゲーム内の乱数は必ずこれを通す
+export class Rng {
+  private s: number;
+  constructor(seed: number) {
+    this.s = seed >>> 0;
+  }
+  // 内部状態（スナップショット用）。書き戻せば同じ列の続きを返す
+  get state() {
+    return this.s;
+  }
+  set state(s: number) {
+    this.s = s >>> 0;
+  }
+  // [0, 1)
+  next() {
+    let t = (this.s = (this.s + 0x6d2b79f5) >>> 0);
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+  // [min, max)
+  range(min: number, max: number) {
+    return min + this.next() * (max - min);
+  }
+}
+
+// seed 未指定時のみ使う（シミュレーション内部では使わない）
+export const randomSeed = () => (Math.random() * 0x100000000) >>> 0;
@@ -0,0 +1,100 @@
+import type { AnyComponentType } from './ecs';
+import type { Game } from './game';
+import { inPlay } from './states';
+
+// ====== System スケジューラ ======
+// 1 tick 内の実行順は phase → order → 登録順
+export const SYSTEM_PHASES = ['input', 'update', 'physics', 'postUpdate'] as const;
+export type SystemPhase = (typeof SYSTEM_PHASES)[number];
+
+export interface System {
+  name: string;
+  phase: SystemPhase;
+  order?: number;
+  // false を返した tick は実行しない（例：プレイ中のみ）
+  runIf?: (game: Game) => boolean;
+  // デバッグ表示用：この system が主に扱う entity のクエリ
+  query?: AnyComponentType[];
+  run(game: Game, dt: number): void;
+}
+
+export type SystemStats = { name: string; phase: SystemPhase; enabled: boolean; ms: number; runs: number; entities: number };
+
+// よく使う実行条件（ステージクリア演出中も含めてプレイ中）
+export const whilePlaying = (game: Game) => inPlay(game.gameState);
+
+type Entry = { system: System; seq: number; enabled: boolean; ms: number; runs: number };
+
+export const profileNow = () => (typeof performance !== 'undefined' ? performance.now() : Date.now());
+
+export class Scheduler {
+  private entries: Entry[] = [];
+  private seq = 0;
+  // 計測は表示しているときだけ（performance.now の呼び出しも省く）
+  profiling = false;
+
+  add(system: System) {
+    if (this.entries.some(e => e.system.name === system.name)) {
+      throw new Error(`system "${system.name}" is already registered`);
+    }
+    this.entries.push({ system, seq: this.seq++, enabled: true, ms: 0, runs: 0 });
+    this.entries.sort((a, b) => {
+      const pa = SYSTEM_PHASES.indexOf(a.system.phase);
+      const pb = SYSTEM_PHASES.indexOf(b.system.phase);
+      if (pa !== pb) return pa - pb;
+      const oa = a.system.order ?? 0;
+      const ob = b.system.order ?? 0;
+      return oa !== ob ? oa - ob : a.seq - b.seq;
+    });
+    return this;
+  }
+
+  remove(name: string) {
+    this.entries = this.entries.filter(e => e.system.name !== name);
+    return this;
+  }
+
+  setEnabled(name: string, enabled: boolean) {
+    const entry = this.entries.find(e => e.system.name === name);
+    if (!entry) throw new Error(`system "${name}" is not registered`);
+    entry.enabled = enabled;
+  }
+
+  isEnabled(name: string) {
+    return !!this.entries.find(e => e.system.name === name)?.enabled;
+  }
+
+  // 1 tick 分：各 system の後で flush し、構造変化を次の system に見せる
+  run(game: Game, dt: number) {
+    for (const entry of this.entries) {
+      const { system } = entry;
+      if (!entry.enabled || (system.runIf && !system.runIf(game))) continue;
+      const t0 = this.profiling ? profileNow() : 0;
+      system.run(game, dt);
+      game.flush();
+      if (this.profiling) {
+        entry.ms += profileNow() - t0;
+        entry.runs++;
+      }
+    }
+  }
+
+  // フレーム単位の計測をリセット（Game.update の先頭で呼ぶ）
+  beginFrame() {
+    for (const entry of this.entries) {
+      entry.ms = 0;
+      entry.runs = 0;
+    }
+  }
+
+  stats(game: Game): SystemStats[] {
+    return this.entries.map(({ system, enabled, ms, runs }) => ({
+      name: system.name,
+      phase: system.phase,
+      enabled,
+      ms,
+      runs,
+      entities: system.query ? game.query(...system.query).length : 0,
+    }));
+  }
+}
@@ -0,0 +1,81 @@
+import { isPlayfieldName, type PlayfieldName } from './data/playfields';
+import { cloneBindings, DEFAULT_KEY_BINDINGS, parseKeyBindings, type KeyBindings } from './controls';
+import { clamp } from './math';
+import { isRendererKind, type RendererKind } from './render/types';
+import { isScaleMode, type ScaleMode } from './render/viewport';
+import { isTouchScheme, type TouchScheme } from './touchControls';
+
+// ====== プレイヤー設定 ======
+// シミュレーション結果には影響しない表示・操作の好み。保存先（localStorage など）は呼び出し側が持つ
+
+export type Settings = {
+  // 画面の揺れ / ヒットストップ / 赤フラッシュを止め、パーティクルを減らす
+  reducedMotion: boolean;
+  keyBindings: KeyBindings;
+  // プレイ中は射撃ボタンを押さなくても撃ち続ける
+  autoFire: boolean;
+  // アナログスティックのデッドゾーン (0..0.9)
+  deadzone: number;
+  // タッチ操作：方式 / ドラッグ時の移動倍率 (0.5..3) / ドラッグ・追従時に自機を上へずらす距離 (px)
+  touchScheme: TouchScheme;
+  touchSensitivity: number;
+  touchOffset: number;
+  // 被弾・ボムで端末を振動させる（navigator.vibrate のある環境のみ）
+  vibration: boolean;
+  // 音量 (0..1) とミュート
+  masterVolume: number;
+  sfxVolume: number;
+  musicVolume: number;
+  muted: boolean;
+  // 論理プレイフィールドの縦横比と、表示領域への載せ方
+  playfield: PlayfieldName;
+  scaleMode: ScaleMode;
+  // 描画方式（弾が多いときは webgl の方が軽い）
+  renderer: RendererKind;
+};
+
+export const DEFAULT_SETTINGS: Settings = {
+  reducedMotion: false,
+  keyBindings: DEFAULT_KEY_BINDINGS,
+  autoFire: false,
+  deadzone: 0.2,
+  touchScheme: 'drag',
+  touchSensitivity: 1.5,
+  touchOffset: 48,
+  vibration: true,
+  masterVolume: 0.8,
+  sfxVolume: 0.8,
+  musicVolume: 0.5,
+  muted: false,
+  playfield: 'portrait',
+  scaleMode: 'fit',
+  renderer: 'canvas',
+};
+
+export const SETTINGS_STORAGE_KEY = 'shooting-game.settings';
+
+// 保存済みの値を既定値に重ねる。壊れた値や未知のキーは無視する
+export function parseSettings(raw: unknown, defaults: Settings = DEFAULT_SETTINGS): Settings {
+  const settings = { ...defaults, keyBindings: cloneBindings(defaults.keyBindings) };
+  if (!raw || typeof raw !== 'object') return settings;
+  const r = raw as Record<string, unknown>;
+  if (typeof r.reducedMotion === 'boolean') settings.reducedMotion = r.reducedMotion;
+  if (r.keyBindings !== undefined) settings.keyBindings = parseKeyBindings(r.keyBindings);
+  if (typeof r.autoFire === 'boolean') settings.autoFire = r.autoFire;
+  if (typeof r.deadzone === 'number' && Number.isFinite(r.deadzone)) settings.deadzone = clamp(r.deadzone, 0, 0.9);
+  if (isTouchScheme(r.touchScheme)) settings.touchScheme = r.touchScheme;
+  if (typeof r.touchSensitivity === 'number' && Number.isFinite(r.touchSensitivity)) {
+    settings.touchSensitivity = clamp(r.touchSensitivity, 0.5, 3);
+  }
+  if (typeof r.touchOffset === 'number' && Number.isFinite(r.touchOffset)) settings.touchOffset = clamp(r.touchOffset, 0, 120);
+  if (typeof r.vibration === 'boolean') settings.vibration = r.vibration;
+  for (const key of ['masterVolume', 'sfxVolume', 'musicVolume'] as const) {
+    const v = r[key];
+    if (typeof v === 'number' && Number.isFinite(v)) settings[key] = clamp(v, 0, 1);
+  }
+  if (typeof r.muted === 'boolean') settings.muted = r.muted;
+  if (isPlayfieldName(r.playfield)) settings.playfield = r.playfield;
+  if (isScaleMode(r.scaleMode)) settings.scaleMode = r.scaleMode;
+  if (isRendererKind(r.renderer)) settings.renderer = r.renderer;
+  return settings;
+}
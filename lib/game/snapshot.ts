@@ -0,0 +1,370 @@
+import {
+  Boss,
+  BossPart,
+  Bullet,
+  Collider,
+  Emitter,
+  Enemy,
+  Health,
+  Input,
+  Lifetime,
+  Particle,
+  Pickup,
+  Player,
+  Position,
+  Render,
+  Star,
+  Velocity,
+  Weapon,
+} from './components';
+import { BOSS_DEFS } from './data/bosses';
+import { ENEMY_DEFS } from './data/enemies';
+import { BULLET_PATTERNS } from './data/patterns';
+import { PICKUP_DEFS } from './data/pickups';
+import { PLAYFIELD_MAX, PLAYFIELD_MIN } from './data/playfields';
+import { STAGES } from './data/stages';
+import { WEAPONS } from './data/weapons';
+import { getComponentType, type AnyComponentType, type Entity, type PooledComponentType, type World } from './ecs';
+import type { ScreenEffects } from './effects';
+import { cloneInput, INPUT_KEYS, parseInput, parseReplay, type InputChange, type Replay } from './replay';
+import type { StageRunner } from './stage';
+import { GAME_STATES, type GameState } from './states';
+
+// ====== セーブステート（スナップショット） ======
+// ワールド全体（entity と component、スコア、状態、タイマー、乱数の状態）を JSON にできる形で書き出し、
+// Game.restore でそっくり戻す。system が回るクエリの並びも保存するので、復元後も同じ入力なら同じ結果になる。
+// 形式を変えたら SNAPSHOT_VERSION を上げ、ひとつ前の版を直す関数を SNAPSHOT_MIGRATIONS に足す
+export const SNAPSHOT_VERSION = 1;
+export const SNAPSHOT_STORAGE_KEY = 'shooting-game.snapshot';
+
+// id: 保存時の entity id（component 内の参照を付け替えるため）、components: component 名 → 値
+export type EntitySnapshot = { id: number; components: Record<string, unknown> };
+// types: component 名、entities: Snapshot.entities 内の位置（クエリの並び順）
+export type QuerySnapshot = { types: string[]; entities: number[] };
+export type StageSnapshot = Pick<
+  StageRunner,
+  'index' | 'loop' | 't' | 'waveIndex' | 'waveAt' | 'pending' | 'clearTimer' | 'bossState' | 'bossTimer'
+>;
+
+export type Snapshot = {
+  version: number;
+  seed: number;
+  tick: number;
+  // 今のランの論理プレイフィールド（Game.width × height）
+  playfield: { width: number; height: number };
+  // Rng の内部状態
+  rng: number;
+  fxRng: number;
+  score: number;
+  state: GameState;
+  pausedFrom: GameState;
+  stateMs: number;
+  menuIndex: number;
+  continueTimer: number;
+  continues: number;
+  continueArmed: boolean;
+  lastFireTick: number;
+  fx: ScreenEffects;
+  stage: StageSnapshot;
+  // 生成順。プレイヤーの HP は player component の health
+  entities: EntitySnapshot[];
+  queries: QuerySnapshot[];
+  // パーティクルプール：作った数と空き entity（Snapshot.entities 内の位置）
+  particles: { size: number; free: number[] };
+  // ラン開始からの入力ログ（復元後の exportReplay もラン全体のリプレイになる）
+  recording: InputChange[];
+  playback: { replay: Replay; cursor: number } | null;
+};
+
+// ====== マイグレーション ======
+// キー: 直す前の版。返した値の version は呼び出し側で 1 つ上げる
+export type SnapshotMigration = (old: Record<string, unknown>) => Record<string, unknown>;
+export const SNAPSHOT_MIGRATIONS: Record<number, SnapshotMigration> = {};
+
+// 古い版を今の版まで順に直す（直せなければ例外）
+export function migrateSnapshot(raw: unknown, migrations = SNAPSHOT_MIGRATIONS): Record<string, unknown> {
+  if (!raw || typeof raw !== 'object') throw new Error('スナップショット形式が不正です');
+  let data = raw as Record<string, unknown>;
+  while (typeof data.version === 'number' && data.version < SNAPSHOT_VERSION) {
+    const migrate = migrations[data.version];
+    if (!migrate) break;
+    data = { ...migrate(data), version: data.version + 1 };
+  }
+  if (data.version !== SNAPSHOT_VERSION) throw new Error(`未対応のスナップショットバージョンです: ${String(data.version)}`);
+  return data;
+}
+
+// ====== 検証 ======
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isIndex = (v: unknown, length: number) => Number.isInteger(v) && (v as number) >= 0 && (v as number) < length;
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+const isGameState = (v: unknown): v is GameState => GAME_STATES.includes(v as GameState);
+const isPlayfieldSize = (v: unknown) => Number.isInteger(v) && (v as number) >= PLAYFIELD_MIN && (v as number) <= PLAYFIELD_MAX;
+
+const NUMBER_FIELDS = ['seed', 'tick', 'rng', 'fxRng', 'score', 'stateMs', 'menuIndex', 'continueTimer', 'continues', 'lastFireTick'] as const;
+const STAGE_NUMBER_FIELDS = ['loop', 't', 'waveIndex', 'waveAt', 'clearTimer', 'bossTimer'] as const;
+const FX_FIELDS = ['shake', 'hitStop', 'flash'] as const;
+const BOSS_STATES: StageSnapshot['bossState'][] = ['none', 'warning', 'fighting'];
+
+// ====== component のフィールド ======
+// 読み込んだ値は描画や system がそのまま使うので、型と既知の名前まで見る（NaN や未知の敵が混ざらないように）。
+// component を増やしたらここにも足す（無いものは読み込めない）
+type FieldCheck = (v: unknown) => boolean;
+const num: FieldCheck = isFiniteNumber;
+const bool: FieldCheck = v => typeof v === 'boolean';
+const str: FieldCheck = v => typeof v === 'string';
+const oneOf =
+  (values: readonly string[]): FieldCheck =>
+  v =>
+    typeof v === 'string' && values.includes(v);
+const keyOf =
+  (table: object): FieldCheck =>
+  v =>
+    typeof v === 'string' && Object.prototype.hasOwnProperty.call(table, v);
+const optional =
+  (check: FieldCheck): FieldCheck =>
+  v =>
+    v === undefined || check(v);
+
+// 全フィールドが揃っていて、知らないフィールドが無いか
+const fields =
+  (spec: Record<string, FieldCheck>) =>
+  (value: Record<string, unknown>) =>
+    Object.keys(value).every(key => Object.prototype.hasOwnProperty.call(spec, key)) &&
+    Object.keys(spec).every(key => spec[key](value[key]));
+
+const vector = fields({ x: num, y: num });
+const pendingSpawn = fields({ at: num, enemy: keyOf(ENEMY_DEFS), x: num, y: num, vx: num, vy: num });
+// 使い回しの Collider には前の持ち主の形のフィールド（r / w / h）が残っていることがある
+const colliderBase = { kind: str, r: optional(num), w: optional(num), h: optional(num), layer: num, mask: num };
+
+const COMPONENT_CHECKS: Record<string, (value: Record<string, unknown>) => boolean> = {
+  [Position.name]: vector,
+  [Velocity.name]: vector,
+  [Render.name]: fields({
+    color: str,
+    size: num,
+    sprite: optional(str),
+    rotation: optional(num),
+    scale: optional(num),
+    alpha: optional(num),
+    layer: optional(num),
+  }),
+  [Player.name]: fields({ health: num, shield: num, invuln: num, bombs: num, bombHeld: bool }),
+  [Bullet.name]: fields({
+    owner: oneOf(['player', 'enemy']),
+    damage: num,
+    kind: optional(oneOf(['shot', 'laser', 'missile'])),
+    pierce: optional(bool),
+    turnRate: optional(num),
+  }),
+  [Weapon.name]: fields({ type: keyOf(WEAPONS), level: num }),
+  [Pickup.name]: fields({ kind: keyOf(PICKUP_DEFS) }),
+  [Particle.name]: fields({ shape: oneOf(['dot', 'spark', 'debris']), life: num, drag: num, angle: num, spin: num }),
+  [Enemy.name]: fields({ type: keyOf(ENEMY_DEFS), t: num, originX: num, diving: bool }),
+  [Health.name]: fields({ hp: num, maxHp: num, flash: num }),
+  [Emitter.name]: fields({ pattern: keyOf(BULLET_PATTERNS), timer: num, angle: num, burstLeft: num }),
+  [Boss.name]: fields({ type: keyOf(BOSS_DEFS), phase: num, t: num, originX: num, entering: bool }),
+  [BossPart.name]: fields({ boss: num, index: num }),
+  [Star.name]: fields({ brightness: num }),
+  [Lifetime.name]: fields({ t: num }),
+  [Collider.name]: value =>
+    value.kind === 'circle'
+      ? fields({ ...colliderBase, r: num })(value)
+      : value.kind === 'aabb' && fields({ ...colliderBase, w: num, h: num })(value),
+  // 入力はリプレイと同じ検証に通し、全キーが揃っているかを見る
+  [Input.name]: value => {
+    try {
+      parseInput(value);
+    } catch {
+      return false;
+    }
+    return INPUT_KEYS.every(key => key in value);
+  },
+};
+
+const componentTypeOf = (name: string) => {
+  const type = getComponentType(name);
+  if (!type) throw new Error(`スナップショットに未知のコンポーネントがあります: ${name}`);
+  return type;
+};
+
+// JSON から読み込んだスナップショットの検証（不正なら例外）。古い版はマイグレーションしてから見る
+export function parseSnapshot(raw: unknown): Snapshot {
+  const s = migrateSnapshot(raw) as Partial<Snapshot>;
+  const badNumber = NUMBER_FIELDS.find(key => !isFiniteNumber(s[key]));
+  if (badNumber) throw new Error(`スナップショットの ${badNumber} が不正です`);
+  if (!isGameState(s.state) || !isGameState(s.pausedFrom) || typeof s.continueArmed !== 'boolean') {
+    throw new Error('スナップショットのゲーム状態が不正です');
+  }
+  const pf = s.playfield;
+  if (!pf || !isPlayfieldSize(pf.width) || !isPlayfieldSize(pf.height)) {
+    throw new Error('スナップショットのプレイフィールドが不正です');
+  }
+  const fx = s.fx;
+  if (!isObject(fx) || FX_FIELDS.some(key => !isFiniteNumber(fx[key]))) throw new Error('スナップショットの演出状態が不正です');
+  const stage = s.stage;
+  if (
+    !isObject(stage) ||
+    !isIndex(stage.index, STAGES.length) ||
+    STAGE_NUMBER_FIELDS.some(key => !isFiniteNumber(stage[key])) ||
+    // waves.length は全 wave を出し終えた後
+    !isIndex(stage.waveIndex, STAGES[stage.index].waves.length + 1) ||
+    !BOSS_STATES.includes(stage.bossState) ||
+    !Array.isArray(stage.pending) ||
+    stage.pending.some(p => !isObject(p) || !pendingSpawn(p))
+  ) {
+    throw new Error('スナップショットのステージ進行が不正です');
+  }
+
+  const entities = s.entities;
+  if (!Array.isArray(entities)) throw new Error('スナップショットの entity が不正です');
+  for (const e of entities) {
+    if (!isObject(e) || !isFiniteNumber(e.id) || !isObject(e.components)) throw new Error('スナップショットの entity が不正です');
+    for (const name of Object.keys(e.components)) {
+      componentTypeOf(name);
+      const value = e.components[name];
+      const check = COMPONENT_CHECKS[name];
+      if (!check || !isObject(value) || !check(value)) throw new Error(`スナップショットのコンポーネント ${name} が不正です`);
+    }
+  }
+  const queries = s.queries;
+  if (
+    !Array.isArray(queries) ||
+    queries.some(
+      q =>
+        !isObject(q) ||
+        !Array.isArray(q.types) ||
+        !Array.isArray(q.entities) ||
+        q.entities.some((i, n) => !isIndex(i, entities.length) || q.entities.indexOf(i) !== n),
+    )
+  ) {
+    throw new Error('スナップショットのクエリが不正です');
+  }
+  queries.forEach(q => q.types.forEach(name => componentTypeOf(String(name))));
+  const particles = s.particles;
+  if (
+    !isObject(particles) ||
+    !Number.isInteger(particles.size) ||
+    !Array.isArray(particles.free) ||
+    particles.free.some(i => !isIndex(i, entities.length) || !(Particle.name in entities[i].components) || Lifetime.name in entities[i].components)
+  ) {
+    throw new Error('スナップショットのパーティクルが不正です');
+  }
+
+  const recording = s.recording;
+  let lastT = 0;
+  if (!Array.isArray(recording)) throw new Error('スナップショットの入力ログが不正です');
+  for (const ev of recording) {
+    if (!isObject(ev) || !isFiniteNumber(ev.t) || ev.t < lastT) throw new Error('スナップショットの入力ログが不正です');
+    try {
+      parseInput(ev.input, pf);
+    } catch (err) {
+      throw new Error(`スナップショットの入力ログが不正です (t=${ev.t}): ${err instanceof Error ? err.message : String(err)}`);
+    }
+    lastT = ev.t;
+  }
+  let playback: Snapshot['playback'] = null;
+  if (s.playback) {
+    if (!isFiniteNumber(s.playback.cursor)) throw new Error('スナップショットのリプレイ再生位置が不正です');
+    playback = { replay: parseReplay(s.playback.replay), cursor: s.playback.cursor };
+  }
+
+  return {
+    version: SNAPSHOT_VERSION,
+    seed: s.seed! >>> 0,
+    tick: s.tick!,
+    playfield: { width: pf.width, height: pf.height },
+    rng: s.rng!,
+    fxRng: s.fxRng!,
+    score: s.score!,
+    state: s.state,
+    pausedFrom: s.pausedFrom,
+    stateMs: s.stateMs!,
+    menuIndex: s.menuIndex!,
+    continueTimer: s.continueTimer!,
+    continues: s.continues!,
+    continueArmed: s.continueArmed,
+    lastFireTick: s.lastFireTick!,
+    fx: { shake: fx.shake, hitStop: fx.hitStop, flash: fx.flash },
+    stage: { ...stage, pending: stage.pending.map(p => ({ ...p })) },
+    entities: entities.map(e => ({ id: e.id, components: cloneValue(e.components) })),
+    queries: queries.map(q => ({ types: q.types.map(String), entities: [...q.entities] })),
+    particles: { size: particles.size, free: [...particles.free] },
+    recording: recording.map(ev => ({ t: ev.t, input: cloneInput(ev.input) })),
+    playback,
+  };
+}
+
+// ====== ワールドの書き出し / 復元 ======
+// component は素のデータだけなので JSON を通して複製する（共有した参照が残らないように）
+const cloneValue = <T>(v: T): T => JSON.parse(JSON.stringify(v));
+
+// entity id を持つ component のフィールド（復元時に新しい id へ付け替える）
+const ENTITY_REFS: Record<string, readonly string[]> = { [BossPart.name]: ['boss'] };
+
+// entity とクエリの並びを書き出す。ref は entity → Snapshot.entities 内の位置
+export function snapshotEntities(world: World) {
+  world.flush();
+  const entities: EntitySnapshot[] = [];
+  const positions: number[] = []; // スロット -> entities 内の位置
+  world.forEachEntity(e => {
+    positions[e.slot] = entities.length;
+    const components: Record<string, unknown> = {};
+    e.components.forEach((value, type) => (components[type.name] = cloneValue(value)));
+    entities.push({ id: e.id, components });
+  });
+  const ref = (e: Entity) => positions[e.slot];
+  const queries: QuerySnapshot[] = world.cachedQueries.map(q => ({ types: q.types.map(t => t.name), entities: q.entities.map(ref) }));
+  return { entities, queries, ref };
+}
+
+// プールの部品は前の持ち主の値が残っているので、フィールドを全部消してから書く
+function writeComponent(e: Entity, type: AnyComponentType, value: unknown) {
+  const copy = cloneValue(value) as Record<string, unknown>;
+  if (!type.create) {
+    e.add(type, copy);
+    return copy;
+  }
+  const comp = e.attach(type as PooledComponentType<Record<string, unknown>>);
+  for (const key of Object.keys(comp)) delete comp[key];
+  return Object.assign(comp, copy);
+}
+
+// 空の world に entity を生成順に作り直し、クエリの並びを戻す。作った entity を Snapshot.entities と同じ順で返す
+export function restoreEntities(world: World, snap: Pick<Snapshot, 'entities' | 'queries'>) {
+  const created = snap.entities.map(() => world.createEntity());
+  const ids = new Map<number, number>();
+  snap.entities.forEach((s, i) => ids.set(s.id, created[i].id));
+  snap.entities.forEach((s, i) => {
+    for (const name of Object.keys(s.components)) {
+      const comp = writeComponent(created[i], componentTypeOf(name), s.components[name]);
+      // 保存時点で消えていた entity への参照は 0（どの entity の id にもならない）にする
+      for (const field of ENTITY_REFS[name] ?? []) comp[field] = ids.get(comp[field] as number) ?? 0;
+    }
+  });
+  world.flush();
+  for (const q of snap.queries) {
+    world.setQueryOrder(
+      q.types.map(componentTypeOf),
+      q.entities.map(i => created[i]),
+    );
+  }
+  return created;
+}
+
+export const snapshotStage = (stage: StageRunner): StageSnapshot => ({
+  index: stage.index,
+  loop: stage.loop,
+  t: stage.t,
+  waveIndex: stage.waveIndex,
+  waveAt: stage.waveAt,
+  pending: stage.pending.map(p => ({ ...p })),
+  clearTimer: stage.clearTimer,
+  bossState: stage.bossState,
+  bossTimer: stage.bossTimer,
+});
+
+export function restoreStage(stage: StageRunner, snap: StageSnapshot) {
+  Object.assign(stage, { ...snap, pending: snap.pending.map(p => ({ ...p })) });
+}
@@ -0,0 +1,179 @@
+import { Boss, Enemy, Velocity } from './components';
+import { BOSS_WARNING_TICKS, STAGE_CLEAR_TICKS } from './constants';
+import { getEnemyDef } from './data/enemies';
+import type { StageDef, WaveDef } from './data/stages';
+import type { Game } from './game';
+import { clamp } from './math';
+import { spawnBoss, spawnEnemy } from './prefabs';
+import { defineQuery } from './ecs';
+
+const BOSS_QUERY = defineQuery(Boss);
+const ENEMY_QUERY = defineQuery(Enemy);
+
+// 出現待ちの敵 1 体分（at: ステージ内 tick）
+type PendingSpawn = { at: number; enemy: string; x: number; y: number; vx: number; vy: number };
+
+// ====== ステージ進行 ======
+// wave を時間どおりに出し、全 wave を出し切って敵が全滅したら（ボスがいれば倒したら）クリア → 次のステージへ
+export class StageRunner {
+  index = 0; // stages 内の位置
+  loop = 0; // 全ステージを何周したか
+  t = 0; // ステージ開始からの tick
+  waveIndex = 0;
+  waveAt = 0; // 次の wave を始める tick（-1: waitClear で全滅待ち）
+  pending: PendingSpawn[] = [];
+  clearTimer = 0; // > 0 の間はクリア演出中
+  // ボス戦：none → warning（bossTimer tick 後に出現）→ fighting
+  bossState: 'none' | 'warning' | 'fighting' = 'none';
+  bossTimer = 0;
+
+  constructor(readonly stages: StageDef[]) {}
+
+  get def() {
+    return this.stages[this.index];
+  }
+
+  // 通しのステージ番号（1 始まり、周回すると増え続ける）
+  get number() {
+    return this.loop * this.stages.length + this.index + 1;
+  }
+
+  get cleared() {
+    return this.clearTimer > 0;
+  }
+
+  reset() {
+    this.index = 0;
+    this.loop = 0;
+    this.begin();
+  }
+
+  private begin() {
+    this.t = 0;
+    this.waveIndex = 0;
+    this.pending = [];
+    this.clearTimer = 0;
+    this.bossState = 'none';
+    this.bossTimer = 0;
+    this.waveAt = this.startOf(this.def.waves[0], 0);
+  }
+
+  private startOf(wave: WaveDef | undefined, now: number) {
+    if (!wave) return 0;
+    return wave.waitClear ? -1 : now + wave.delay;
+  }
+
+  private advance() {
+    this.index++;
+    if (this.index >= this.stages.length) {
+      this.index = 0;
+      this.loop++;
+    }
+    this.begin();
+  }
+
+  update(game: Game) {
+    if (this.clearTimer > 0) {
+      if (--this.clearTimer === 0) {
+        this.advance();
+        game.setState('playing');
+      }
+      return;
+    }
+    this.t++;
+    const { waves } = this.def;
+    const enemiesAlive = game.select(ENEMY_QUERY).length > 0;
+
+    // wave 開始
+    while (this.waveIndex < waves.length) {
+      if (this.waveAt < 0) {
+        if (this.pending.length || enemiesAlive) break;
+        this.waveAt = this.t + waves[this.waveIndex].delay;
+      }
+      if (this.t < this.waveAt) break;
+      this.schedule(game, waves[this.waveIndex]);
+      this.waveIndex++;
+      this.waveAt = this.startOf(waves[this.waveIndex], this.t);
+    }
+
+    // 出現時刻になった敵を出す（残りは前に詰める）
+    if (this.pending.length) {
+      let rest = 0;
+      for (const p of this.pending) {
+        if (p.at > this.t) {
+          this.pending[rest++] = p;
+          continue;
+        }
+        const e = spawnEnemy(game, p.enemy, p.x, p.y);
+        const vel = e.get(Velocity)!;
+        vel.x = p.vx;
+        vel.y = p.vy;
+      }
+      this.pending.length = rest;
+    }
+
+    if (this.waveIndex < waves.length || this.pending.length || enemiesAlive) return;
+
+    // 雑魚を出し切って全滅 → ボス戦
+    if (this.def.boss && this.bossState !== 'fighting') {
+      if (this.bossState === 'none') {
+        this.bossState = 'warning';
+        this.bossTimer = BOSS_WARNING_TICKS;
+        game.events.emit('bossWarning', { stage: this.number });
+      } else if (--this.bossTimer <= 0) {
+        this.bossState = 'fighting';
+        spawnBoss(game, this.def.boss);
+      }
+      return;
+    }
+    if (this.bossState === 'fighting' && game.select(BOSS_QUERY).length > 0) return;
+
+    // stage clear
+    game.addScore(this.def.clearBonus);
+    this.clearTimer = STAGE_CLEAR_TICKS;
+    game.setState('stageClear');
+    game.events.emit('stageCleared', { stage: this.number, bonus: this.def.clearBonus });
+  }
+
+  // wave の隊員を出現待ちに積む（位置は formation / entry から決める）
+  private schedule(game: Game, w: WaveDef) {
+    const def = getEnemyDef(w.enemy);
+    const size = def.size;
+    const spacing = w.spacing ?? size * 2;
+    const interval = w.interval ?? 0;
+    const entry = w.entry ?? 'top';
+    const mid = (w.count - 1) / 2;
+
+    for (let i = 0; i < w.count; i++) {
+      const at = this.t + i * interval;
+      if (entry === 'top') {
+        let x = (w.x ?? 0.5) * game.width;
+        let y = -size;
+        switch (w.formation) {
+          case 'line':
+            x += (i - mid) * spacing;
+            break;
+          case 'column':
+            if (!interval) y -= i * spacing;
+            break;
+          case 'v':
+            x += (i - mid) * spacing;
+            y -= Math.abs(i - mid) * spacing * 0.6;
+            break;
+          case 'random':
+            x = game.rng.range(size / 2, game.width - size / 2);
+            break;
+        }
+        x = clamp(x, size / 2, game.width - size / 2);
+        this.pending.push({ at, enemy: w.enemy, x, y, vx: 0, vy: def.speed });
+      } else {
+        // 画面横から斜めに入ってくる
+        const dir = entry === 'left' ? 1 : -1;
+        const x = entry === 'left' ? -size : game.width + size;
+        const offset = interval ? 0 : i * spacing;
+        const y = (w.y ?? 0.2) * game.height - offset;
+        this.pending.push({ at, enemy: w.enemy, x: x - dir * offset, y, vx: dir * def.speed * 1.5, vy: def.speed * 0.5 });
+      }
+    }
+  }
+}
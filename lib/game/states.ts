@@ -0,0 +1,94 @@
+import type { Game } from './game';
+
+// ====== ゲーム状態（ステートマシン） ======
+// simulate: Game.update が tick を進めるか。title / paused / results は止まった画面でメニューだけを受け付ける
+// loading はアセット読み込み中（読み終えたら title へ）
+// menu: canvas に描くメニュー。選ぶと Game.menuSelect が action を実行する
+
+export const GAME_STATES = ['loading', 'title', 'playing', 'paused', 'stageClear', 'gameOver', 'results'] as const;
+export type GameState = (typeof GAME_STATES)[number];
+
+export type MenuAction = 'start' | 'resume' | 'restart' | 'title' | 'retry';
+export type MenuItem = { action: MenuAction; label: string };
+
+export type StateDef = {
+  simulate: boolean;
+  // 一時停止できるか（pause 後は元の状態へ戻る）
+  pausable?: boolean;
+  menu?: readonly MenuItem[];
+  // 遷移してよい先
+  next: readonly GameState[];
+};
+
+export const STATE_DEFS: Record<GameState, StateDef> = {
+  loading: {
+    simulate: false,
+    next: ['title'],
+  },
+  title: {
+    simulate: false,
+    menu: [{ action: 'start', label: 'START' }],
+    next: ['playing'],
+  },
+  playing: {
+    simulate: true,
+    pausable: true,
+    next: ['paused', 'stageClear', 'gameOver', 'title', 'loading'],
+  },
+  paused: {
+    simulate: false,
+    menu: [
+      { action: 'resume', label: '再開' },
+      { action: 'restart', label: 'リスタート' },
+      { action: 'title', label: 'タイトルへ' },
+    ],
+    next: ['playing', 'stageClear', 'gameOver', 'title'],
+  },
+  stageClear: {
+    simulate: true,
+    pausable: true,
+    next: ['playing', 'paused', 'gameOver', 'title'],
+  },
+  gameOver: {
+    simulate: true,
+    pausable: true,
+    next: ['playing', 'stageClear', 'paused', 'results', 'title'],
+  },
+  results: {
+    simulate: false,
+    menu: [
+      { action: 'retry', label: 'もう一度' },
+      { action: 'title', label: 'タイトルへ' },
+    ],
+    next: ['playing', 'title'],
+  },
+};
+
+// プレイ中（ステージクリア演出中を含む）。多くの system の実行条件
+export const inPlay = (state: GameState) => state === 'playing' || state === 'stageClear';
+
+// ====== メニューの配置 ======
+// 描画（Renderer）とタップ判定（Game.menuPointer）で同じ矩形を使う
+export const MENU_ITEM_W = 180;
+export const MENU_ITEM_H = 32;
+const MENU_GAP = 10;
+
+export type Rect = { x: number; y: number; w: number; h: number };
+
+export function menuItemRect(game: Game, index: number): Rect {
+  return {
+    x: (game.width - MENU_ITEM_W) / 2,
+    y: game.height * 0.55 + index * (MENU_ITEM_H + MENU_GAP),
+    w: MENU_ITEM_W,
+    h: MENU_ITEM_H,
+  };
+}
+
+export function menuItemAt(game: Game, x: number, y: number) {
+  const items = STATE_DEFS[game.gameState].menu ?? [];
+  for (let i = 0; i < items.length; i++) {
+    const r = menuItemRect(game, i);
+    if (x >= r.x && x <= r.x + r.w && y >= r.y && y <= r.y + r.h) return i;
+  }
+  return -1;
+}
@@ -0,0 +1,90 @@
+import { Boss, BossPart, Emitter, Health, Position, Velocity } from '../components';
+import { getBossDef } from '../data/bosses';
+import { attachEmitter } from '../prefabs';
+import { whilePlaying, type System } from '../scheduler';
+import { defineQuery } from '../ecs';
+
+const BOSS_PART_POSITION_QUERY = defineQuery(BossPart, Position);
+const BOSS_PART_QUERY = defineQuery(BossPart);
+const BOSS_POSITION_VELOCITY_HEALTH_QUERY = defineQuery(Boss, Position, Velocity, Health);
+
+// 現在の HP 比率に対応する phase 番号
+const phaseFor = (phases: { hpBelow: number }[], ratio: number) => {
+  let phase = 0;
+  phases.forEach((p, i) => {
+    if (ratio <= p.hpBelow) phase = i;
+  });
+  return phase;
+};
+
+// BossSystem: 登場 → HP 比率による phase 切り替え → phase ごとの横移動と弾幕
+export const bossSystem: System = {
+  name: 'Boss',
+  phase: 'update',
+  order: 10,
+  runIf: whilePlaying,
+  query: [Boss],
+  run(game) {
+    for (const e of game.select(BOSS_POSITION_VELOCITY_HEALTH_QUERY)) {
+      const info = e.get(Boss)!;
+      const def = getBossDef(info.type);
+      const pos = e.get(Position)!;
+      const vel = e.get(Velocity)!;
+
+      if (info.entering) {
+        if (pos.y < def.entryY) continue;
+        // 戦闘開始：止まって本体と部位に弾幕を付ける
+        info.entering = false;
+        pos.y = def.entryY;
+        vel.y = 0;
+        attachEmitter(e, def.phases[0].pattern);
+        for (const part of game.select(BOSS_PART_QUERY)) {
+          const p = part.get(BossPart)!;
+          const partDef = def.parts[p.index];
+          if (p.boss === e.id && partDef.pattern) attachEmitter(part, partDef.pattern);
+        }
+      }
+
+      info.t++;
+      const health = e.get(Health)!;
+      const phase = phaseFor(def.phases, health.hp / health.maxHp);
+      if (phase !== info.phase) {
+        info.phase = phase;
+        attachEmitter(e, def.phases[phase].pattern);
+        e.get(Emitter)!.timer = 30; // 切り替え直後は少し間を置く
+      }
+
+      const p = def.phases[phase];
+      if (p.period > 0) {
+        const w = (Math.PI * 2) / p.period;
+        vel.x = p.amplitude * w * Math.cos(w * info.t);
+      } else {
+        // 静止 phase：中央へ戻る
+        vel.x = (info.originX - pos.x) * 0.05;
+      }
+    }
+  },
+};
+
+// BossPartSystem: 部位を本体の位置に追従させる。本体が消えたら部位も消す
+export const bossPartSystem: System = {
+  name: 'BossPart',
+  phase: 'physics',
+  order: 5, // movement の後、collision の前
+  query: [BossPart],
+  run(game) {
+    for (const part of game.select(BOSS_PART_POSITION_QUERY)) {
+      const info = part.get(BossPart)!;
+      const boss = game.getEntity(info.boss);
+      if (!boss || !boss.alive) {
+        game.destroyEntity(part);
+        continue;
+      }
+      const offset = getBossDef(boss.get(Boss)!.type).parts[info.index].offset;
+      const bpos = boss.get(Position)!;
+      const pos = part.get(Position)!;
+      pos.x = bpos.x + offset.x;
+      pos.y = bpos.y + offset.y;
+    }
+  },
+};
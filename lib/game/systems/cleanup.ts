@@ -0,0 +1,31 @@
+import { Bullet, Enemy, Pickup, Position, Render } from '../components';
+import { defineQuery, type Entity } from '../ecs';
+import type { Game } from '../game';
+import { whilePlaying, type System } from '../scheduler';
+
+const BULLET_POSITION_QUERY = defineQuery(Bullet, Position);
+const ENEMY_POSITION_QUERY = defineQuery(Enemy, Position);
+const PICKUP_POSITION_QUERY = defineQuery(Pickup, Position);
+
+const cull = (game: Game, list: readonly Entity[]) => {
+  for (const e of list) {
+    const pos = e.get(Position)!;
+    const r = e.get(Render);
+    const margin = (r?.size ?? 16) + 20;
+    if (pos.y < -margin || pos.y > game.height + margin || pos.x < -margin || pos.x > game.width + margin) {
+      game.destroyEntity(e);
+    }
+  }
+};
+
+// CleanupSystem: remove bullets/enemies/pickups out of bounds
+export const cleanupSystem: System = {
+  name: 'Cleanup',
+  phase: 'postUpdate',
+  runIf: whilePlaying,
+  run(game) {
+    cull(game, game.select(BULLET_POSITION_QUERY));
+    cull(game, game.select(ENEMY_POSITION_QUERY));
+    cull(game, game.select(PICKUP_POSITION_QUERY));
+  },
+};
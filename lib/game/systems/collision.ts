@@ -0,0 +1,133 @@
+import { Bullet, Collider, Enemy, Pickup, Position } from '../components';
+import { damageEnemy, damagePlayer } from '../combat';
+import { defineQuery, type Entity } from '../ecs';
+import type { Game } from '../game';
+import { applyPickup } from '../pickups';
+import { boundsOf, Layer, layersInteract, overlaps, SpatialGrid, type Bounds } from '../physics';
+import { whilePlaying, type System } from '../scheduler';
+
+const COLLIDER_POSITION_QUERY = defineQuery(Collider, Position);
+
+// ====== 接触ハンドラ ======
+// layer の組ごとに反応を宣言する。a / b は handler の a / b layer に合わせて並べ替えて渡す。
+// 配列の順が優先順（同じ tick に複数接触があれば上から処理）
+export type ContactHandler = {
+  a: number;
+  b: number;
+  handle(game: Game, a: Entity, b: Entity): void;
+};
+
+export const contactHandlers: ContactHandler[] = [
+  {
+    // enemy が player に体当たり（ボス本体・部位は壊れない）。無敵中はすり抜ける
+    a: Layer.PLAYER,
+    b: Layer.ENEMY,
+    handle(game, _player, enemy) {
+      if (damagePlayer(game, 1) && enemy.has(Enemy)) game.destroyEntity(enemy);
+    },
+  },
+  {
+    a: Layer.PLAYER,
+    b: Layer.ENEMY_BULLET,
+    handle(game, _player, bullet) {
+      if (damagePlayer(game, bullet.get(Bullet)!.damage)) game.destroyEntity(bullet);
+    },
+  },
+  {
+    a: Layer.PLAYER_BULLET,
+    b: Layer.ENEMY,
+    handle(game, bullet, enemy) {
+      const b = bullet.get(Bullet)!;
+      const pos = bullet.get(Position)!;
+      if (damageEnemy(game, enemy, b.damage) === 'hit') game.events.emit('enemyHit', { x: pos.x, y: pos.y });
+      if (!b.pierce) game.destroyEntity(bullet);
+    },
+  },
+  {
+    a: Layer.PLAYER,
+    b: Layer.PICKUP,
+    handle(game, player, pickup) {
+      applyPickup(game, player, pickup.get(Pickup)!.kind);
+      game.destroyEntity(pickup);
+    },
+  },
+];
+
+type Contact = { a: Entity; b: Entity };
+
+// CollisionSystem: uniform-grid broad-phase -> shape narrow-phase -> per-layer-pair handlers.
+// 処理済みで破棄された entity は以降の接触から外すので、1 体の敵が 2 回倒されることはない
+export function createCollisionSystem(): System {
+  let grid: SpatialGrid | null = null;
+  // handler ごとの接触（Contact オブジェクトは使い回し、count までが今 tick の分）
+  const buckets = contactHandlers.map(() => ({ contacts: [] as Contact[], count: 0 }));
+  const bounds: Bounds = { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+
+  const findHandler = (la: number, lb: number) => {
+    for (let i = 0; i < contactHandlers.length; i++) {
+      const h = contactHandlers[i];
+      if (la & h.a && lb & h.b) return i;
+    }
+    return -1;
+  };
+
+  const pushContact = (handler: number, a: Entity, b: Entity) => {
+    const bucket = buckets[handler];
+    const c = bucket.contacts[bucket.count] ?? (bucket.contacts[bucket.count] = { a, b });
+    c.a = a;
+    c.b = b;
+    bucket.count++;
+  };
+
+  // narrow-phase の相手 1 体分（毎回クロージャを作らないよう、調べている側は current で渡す）
+  let current: Entity;
+  const visit = (other: Entity) => {
+    if (other.seq <= current.seq) return;
+    const ce = current.get(Collider)!;
+    const co = other.get(Collider)!;
+    if (!layersInteract(ce.layer, ce.mask, co.layer, co.mask)) return;
+    if (!overlaps(current.get(Position)!, ce, other.get(Position)!, co)) return;
+    let handler = findHandler(ce.layer, co.layer);
+    if (handler >= 0) {
+      pushContact(handler, current, other);
+      return;
+    }
+    handler = findHandler(co.layer, ce.layer);
+    if (handler >= 0) pushContact(handler, other, current);
+  };
+
+  return {
+    name: 'Collision',
+    phase: 'physics',
+    order: 10, // movement の後
+    runIf: whilePlaying,
+    query: [Collider, Position],
+    run(game) {
+      // プレイフィールドの大きさはランごとに変わる（古い大きさのままだと外側が端のセルに詰まる）
+      if (!grid) grid = new SpatialGrid(game.width, game.height);
+      else if (grid.width !== game.width || grid.height !== game.height) grid.resize(game.width, game.height);
+      const g = grid;
+      const bodies = game.select(COLLIDER_POSITION_QUERY);
+
+      // broad-phase
+      g.clear();
+      for (const e of bodies) g.insert(e, boundsOf(e.get(Position)!, e.get(Collider)!, bounds));
+
+      // narrow-phase（各ペアは生成順の早い側から 1 回だけ調べる）
+      for (const e of bodies) {
+        current = e;
+        g.forEachNear(boundsOf(e.get(Position)!, e.get(Collider)!, bounds), visit);
+      }
+
+      // response（handler の優先順。同じ handler の中は検出順）
+      for (let h = 0; h < buckets.length; h++) {
+        const bucket = buckets[h];
+        for (let i = 0; i < bucket.count; i++) {
+          const c = bucket.contacts[i];
+          if (c.a.alive && c.b.alive) contactHandlers[h].handle(game, c.a, c.b);
+        }
+        bucket.count = 0;
+      }
+    },
+  };
+}
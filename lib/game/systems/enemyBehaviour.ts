@@ -0,0 +1,75 @@
+import { Enemy, Health, Player, Position, Velocity } from '../components';
+import { getEnemyDef } from '../data/enemies';
+import { whilePlaying, type System } from '../scheduler';
+import { defineQuery } from '../ecs';
+
+const ENEMY_POSITION_VELOCITY_QUERY = defineQuery(Enemy, Position, Velocity);
+const HEALTH_QUERY = defineQuery(Health);
+const PLAYER_POSITION_QUERY = defineQuery(Player, Position);
+
+// EnemyBehaviourSystem: 敵定義の movement に従って速度を決める（位置の更新は MovementSystem）
+export const enemyBehaviourSystem: System = {
+  name: 'EnemyBehaviour',
+  phase: 'update',
+  order: 10, // spawn の後
+  runIf: whilePlaying,
+  query: [Enemy, Position, Velocity],
+  run(game) {
+    const player = game.select(PLAYER_POSITION_QUERY)[0];
+    const ppos = player?.get(Position);
+
+    for (const e of game.select(ENEMY_POSITION_VELOCITY_QUERY)) {
+      const info = e.get(Enemy)!;
+      const pos = e.get(Position)!;
+      const vel = e.get(Velocity)!;
+      const m = getEnemyDef(info.type).movement;
+      info.t++;
+
+      switch (m.kind) {
+        case 'straight':
+          break;
+        case 'sine': {
+          // x = originX + A sin(ωt) の微分を速度にする
+          const w = (Math.PI * 2) / m.period;
+          vel.x = m.amplitude * w * Math.cos(w * info.t);
+          break;
+        }
+        case 'dive': {
+          if (!ppos) break;
+          const dx = ppos.x - pos.x;
+          const dy = ppos.y - pos.y;
+          if (!info.diving) {
+            if (pos.y < m.diveY) break;
+            info.diving = true;
+            const d = Math.hypot(dx, dy) || 1;
+            vel.x = (dx / d) * m.diveSpeed;
+            vel.y = (dy / d) * m.diveSpeed;
+          } else if (dy > 0) {
+            // プレイヤーより上にいる間だけ、向きを少しずつプレイヤーへ寄せる
+            const cur = Math.atan2(vel.y, vel.x);
+            let diff = Math.atan2(dy, dx) - cur;
+            while (diff > Math.PI) diff -= Math.PI * 2;
+            while (diff < -Math.PI) diff += Math.PI * 2;
+            const a = cur + Math.max(-m.turnRate, Math.min(m.turnRate, diff));
+            vel.x = Math.cos(a) * m.diveSpeed;
+            vel.y = Math.sin(a) * m.diveSpeed;
+          }
+          break;
+        }
+      }
+    }
+  },
+};
+
+// HitFlashSystem: 被弾フラッシュの残り時間を減らす
+export const hitFlashSystem: System = {
+  name: 'HitFlash',
+  phase: 'postUpdate',
+  query: [Health],
+  run(game, dt) {
+    for (const e of game.select(HEALTH_QUERY)) {
+      const h = e.get(Health)!;
+      if (h.flash > 0) h.flash = Math.max(0, h.flash - dt);
+    }
+  },
+};
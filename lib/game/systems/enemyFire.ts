@@ -0,0 +1,74 @@
+import { Emitter, Player, Position } from '../components';
+import { DEFAULT_BULLET_STYLE, getBulletPattern, type BulletPatternDef, type BulletStyle } from '../data/patterns';
+import type { Game } from '../game';
+import type { Vec2 } from '../math';
+import { spawnEnemyBullet } from '../prefabs';
+import { whilePlaying, type System } from '../scheduler';
+import { defineQuery } from '../ecs';
+
+const EMITTER_POSITION_QUERY = defineQuery(Emitter, Position);
+const PLAYER_POSITION_QUERY = defineQuery(Player, Position);
+
+const DEG = Math.PI / 180;
+
+// パターンごとの弾の見た目（既定値との合成は 1 回だけ）
+const styles = new Map<BulletPatternDef, BulletStyle>();
+function styleOf(p: BulletPatternDef) {
+  let style = styles.get(p);
+  if (!style) {
+    style = { ...DEFAULT_BULLET_STYLE, ...p.bullet };
+    styles.set(p, style);
+  }
+  return style;
+}
+
+// 1 回分の発射
+function fireVolley(game: Game, pos: Vec2, p: BulletPatternDef, spinAngle: number, target: Vec2 | undefined) {
+  const base =
+    p.direction === 'player'
+      ? target
+        ? Math.atan2(target.y - pos.y, target.x - pos.x)
+        : Math.PI / 2
+      : p.direction * DEG;
+  const center = base + spinAngle * DEG;
+  const style = styleOf(p);
+  // 全周は端と端が重ならないよう count 等分、扇は両端を含めて等分
+  const step = p.count <= 1 ? 0 : p.arc >= 360 ? (360 / p.count) * DEG : (p.arc / (p.count - 1)) * DEG;
+  const start = p.arc >= 360 ? center : center - (step * (p.count - 1)) / 2;
+  for (let i = 0; i < p.count; i++) {
+    spawnEnemyBullet(game, pos.x, pos.y, start + step * i, p.speed, style);
+  }
+  game.events.emit('bulletFired', { owner: 'enemy', x: pos.x, y: pos.y });
+}
+
+// EnemyFireSystem: Emitter を持つ entity がパターンに従って敵弾を撃つ（画面内にいる間だけ）
+export const enemyFireSystem: System = {
+  name: 'EnemyFire',
+  phase: 'update',
+  order: 20, // behaviour の後
+  runIf: whilePlaying,
+  query: [Emitter, Position],
+  run(game) {
+    const target = game.select(PLAYER_POSITION_QUERY)[0]?.get(Position);
+    for (const e of game.select(EMITTER_POSITION_QUERY)) {
+      const em = e.get(Emitter)!;
+      const pos = e.get(Position)!;
+      if (--em.timer > 0) continue;
+      const p = getBulletPattern(em.pattern);
+      const onScreen = pos.y > 0 && pos.y < game.height * 0.75 && pos.x > 0 && pos.x < game.width;
+      if (!onScreen) {
+        em.timer = 1;
+        continue;
+      }
+      fireVolley(game, pos, p, em.angle, target);
+      if (em.burstLeft <= 0) em.burstLeft = p.burst ?? 1;
+      em.burstLeft--;
+      if (em.burstLeft > 0) {
+        em.timer = p.burstGap ?? 1;
+      } else {
+        em.timer = p.interval;
+        em.angle = (em.angle + (p.spin ?? 0)) % 360;
+      }
+    }
+  },
+};
@@ -0,0 +1,58 @@
+import { Bullet, Collider, Position, Render, Velocity } from '../components';
+import { defineQuery, type Entity } from '../ecs';
+import { Layer } from '../physics';
+import { whilePlaying, type System } from '../scheduler';
+
+const BULLET_POSITION_VELOCITY_QUERY = defineQuery(Bullet, Position, Velocity);
+const COLLIDER_POSITION_QUERY = defineQuery(Collider, Position);
+
+// 狙える敵（tick ごとに詰め直して使い回す）
+const targets: Entity[] = [];
+
+// HomingSystem: turnRate を持つ自機弾を一番近い敵へ少しずつ向ける
+export const homingSystem: System = {
+  name: 'Homing',
+  phase: 'update',
+  order: 30,
+  runIf: whilePlaying,
+  run(game) {
+    const missiles = game.select(BULLET_POSITION_VELOCITY_QUERY);
+    let found = false;
+    for (const m of missiles) {
+      const b = m.get(Bullet)!;
+      if (!b.turnRate || b.owner !== 'player') continue;
+      if (!found) {
+        found = true;
+        targets.length = 0;
+        for (const e of game.select(COLLIDER_POSITION_QUERY)) if (e.get(Collider)!.layer === Layer.ENEMY) targets.push(e);
+      }
+      const pos = m.get(Position)!;
+      let best: Entity | null = null;
+      let bestD = Infinity;
+      for (const t of targets) {
+        if (!t.alive) continue;
+        const tp = t.get(Position)!;
+        const d = (tp.x - pos.x) ** 2 + (tp.y - pos.y) ** 2;
+        if (d < bestD) {
+          bestD = d;
+          best = t;
+        }
+      }
+      if (!best) continue;
+      const vel = m.get(Velocity)!;
+      const tp = best.get(Position)!;
+      const speed = Math.hypot(vel.x, vel.y);
+      const cur = Math.atan2(vel.y, vel.x);
+      let diff = Math.atan2(tp.y - pos.y, tp.x - pos.x) - cur;
+      while (diff > Math.PI) diff -= Math.PI * 2;
+      while (diff < -Math.PI) diff += Math.PI * 2;
+      const a = cur + Math.max(-b.turnRate, Math.min(b.turnRate, diff));
+      vel.x = Math.cos(a) * speed;
+      vel.y = Math.sin(a) * speed;
+      // 素材は上向きなので進行方向 + 90°
+      const r = m.get(Render);
+      if (r) r.rotation = a + Math.PI / 2;
+    }
+    targets.length = 0;
+  },
+};
@@ -0,0 +1,51 @@
+import type { System } from '../scheduler';
+import { bossPartSystem, bossSystem } from './boss';
+import { cleanupSystem } from './cleanup';
+import { createCollisionSystem } from './collision';
+import { enemyBehaviourSystem, hitFlashSystem } from './enemyBehaviour';
+import { enemyFireSystem } from './enemyFire';
+import { homingSystem } from './homing';
+import { inputToPlayerSystem } from './input';
+import { movementSystem } from './movement';
+import { particleSystem } from './particles';
+import { continueSystem, playerStatusSystem } from './player';
+import { shootingSystem } from './shooting';
+import { stageSystem } from './stage';
+
+export {
+  bossPartSystem,
+  bossSystem,
+  cleanupSystem,
+  continueSystem,
+  enemyBehaviourSystem,
+  enemyFireSystem,
+  hitFlashSystem,
+  homingSystem,
+  inputToPlayerSystem,
+  movementSystem,
+  particleSystem,
+  playerStatusSystem,
+  shootingSystem,
+  stageSystem,
+};
+export { contactHandlers, createCollisionSystem, type ContactHandler } from './collision';
+
+// 既定の system 構成（順序は phase / order で決まる）。
+// 内部状態を持つ system があるので Game ごとに作る
+export const createDefaultSystems = (): System[] => [
+  inputToPlayerSystem,
+  playerStatusSystem,
+  continueSystem,
+  shootingSystem,
+  stageSystem,
+  enemyBehaviourSystem,
+  bossSystem,
+  enemyFireSystem,
+  homingSystem,
+  particleSystem,
+  movementSystem,
+  bossPartSystem,
+  createCollisionSystem(),
+  cleanupSystem,
+  hitFlashSystem,
+];
@@ -0,0 +1,62 @@
+import { Input, Player, Position, Velocity } from '../components';
+import { PLAYER_SPEED } from '../constants';
+import { lerp } from '../math';
+import { whilePlaying, type System } from '../scheduler';
+import { defineQuery } from '../ecs';
+
+const INPUT_QUERY = defineQuery(Input);
+const PLAYER_POSITION_VELOCITY_QUERY = defineQuery(Player, Position, Velocity);
+
+// InputSystem: updates player velocity and shooting based on input component
+export const inputToPlayerSystem: System = {
+  name: 'InputToPlayer',
+  phase: 'input',
+  runIf: whilePlaying,
+  query: [Player, Position, Velocity],
+  run(game) {
+    const inputEntity = game.select(INPUT_QUERY)[0];
+    if (!inputEntity) return;
+    const inp = inputEntity.get(Input)!;
+
+    for (const p of game.select(PLAYER_POSITION_VELOCITY_QUERY)) {
+      const pos = p.get(Position)!;
+      const vel = p.get(Velocity)!;
+
+      // keyboard movement base
+      let targetVelX = 0;
+      let targetVelY = 0;
+      if (inp.left) targetVelX -= PLAYER_SPEED;
+      if (inp.right) targetVelX += PLAYER_SPEED;
+      if (inp.up) targetVelY -= PLAYER_SPEED;
+      if (inp.down) targetVelY += PLAYER_SPEED;
+
+      // analog stick（倒した量に比例）
+      if (inp.axisX || inp.axisY) {
+        targetVelX = inp.axisX * PLAYER_SPEED;
+        targetVelY = inp.axisY * PLAYER_SPEED;
+      }
+
+      // pointer/touch chasing
+      if (inp.touching) {
+        const dx = inp.mousePos.x - pos.x;
+        const dy = inp.mousePos.y - pos.y;
+        const dist = Math.hypot(dx, dy);
+        if (dist > 8) {
+          const factor = Math.min(1, dist / 60);
+          targetVelX = dx * 0.15 * factor;
+          targetVelY = dy * 0.15 * factor;
+          const speed = Math.hypot(targetVelX, targetVelY);
+          if (speed > PLAYER_SPEED) {
+            targetVelX = (targetVelX / speed) * PLAYER_SPEED;
+            targetVelY = (targetVelY / speed) * PLAYER_SPEED;
+          }
+        }
+      }
+
+      vel.x = lerp(vel.x, targetVelX, 0.15);
+      vel.y = lerp(vel.y, targetVelY, 0.15);
+
+      // clamp player position later in MovementSystem
+    }
+  },
+};
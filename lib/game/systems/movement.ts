@@ -0,0 +1,49 @@
+import { Lifetime, Particle, Player, Position, Render, Star, Velocity } from '../components';
+import { FIXED_DT_MS, PLAYER_SIZE } from '../constants';
+import { clamp } from '../math';
+import type { System } from '../scheduler';
+import { defineQuery } from '../ecs';
+
+const LIFETIME_QUERY = defineQuery(Lifetime);
+const PLAYER_POSITION_RENDER_QUERY = defineQuery(Player, Position, Render);
+const POSITION_VELOCITY_QUERY = defineQuery(Position, Velocity);
+
+// MovementSystem: moves entities by velocity (px per tick, scaled by dt); handles star wrapping; lifetime countdown
+// gameOver 中も背景を動かすため実行条件なし
+export const movementSystem: System = {
+  name: 'Movement',
+  phase: 'physics',
+  query: [Position, Velocity],
+  run(game, dt) {
+    const k = dt / FIXED_DT_MS;
+    for (const e of game.select(POSITION_VELOCITY_QUERY)) {
+      const pos = e.get(Position)!;
+      const vel = e.get(Velocity)!;
+      pos.x += vel.x * k;
+      pos.y += vel.y * k;
+      // star wrap
+      if (e.has(Star) && pos.y > game.height + 5) {
+        pos.y = -5;
+        pos.x = game.rng.range(0, game.width);
+        vel.y = game.rng.range(0.3, 1.8);
+      }
+    }
+    // lifetime（パーティクルは破棄せずプールへ戻す）
+    for (const e of game.select(LIFETIME_QUERY)) {
+      const lt = e.get(Lifetime)!;
+      lt.t -= dt;
+      if (lt.t > 0) continue;
+      if (e.has(Particle)) game.particles.release(e);
+      else game.destroyEntity(e);
+    }
+
+    // clamp player within screen
+    for (const p of game.select(PLAYER_POSITION_RENDER_QUERY)) {
+      const pos = p.get(Position)!;
+      const r = p.get(Render)!;
+      const half = (r.size ?? PLAYER_SIZE) / 2;
+      pos.x = clamp(pos.x, half, game.width - half);
+      pos.y = clamp(pos.y, half, game.height - half);
+    }
+  },
+};
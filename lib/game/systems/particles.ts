@@ -0,0 +1,36 @@
+import { Lifetime, Particle, Player, Position, Render, Velocity } from '../components';
+import { spawnParticles } from '../particles';
+import { whilePlaying, type System } from '../scheduler';
+import { defineQuery } from '../ecs';
+
+const PARTICLE_LIFETIME_VELOCITY_RENDER_QUERY = defineQuery(Particle, Lifetime, Velocity, Render);
+const PLAYER_POSITION_VELOCITY_QUERY = defineQuery(Player, Position, Velocity);
+
+// ParticleSystem: 減速・回転（Render.rotation）・寿命に合わせたフェード（Render.alpha）と自機のエンジン噴射
+// 寿命の管理は MovementSystem の Lifetime が行う。gameOver 中も爆発の残りを動かすため実行条件なし
+export const particleSystem: System = {
+  name: 'Particles',
+  phase: 'update',
+  order: 40,
+  query: [Particle, Lifetime],
+  run(game) {
+    for (const e of game.select(PARTICLE_LIFETIME_VELOCITY_RENDER_QUERY)) {
+      const p = e.get(Particle)!;
+      const vel = e.get(Velocity)!;
+      const r = e.get(Render)!;
+      vel.x *= p.drag;
+      vel.y *= p.drag;
+      p.angle += p.spin;
+      if (p.spin) r.rotation = p.angle;
+      r.alpha = Math.max(0, Math.min(1, e.get(Lifetime)!.t / p.life));
+    }
+
+    // engine trail（reducedMotion 時は出さない）
+    if (!whilePlaying(game) || game.settings.reducedMotion || game.tick % 2) return;
+    for (const player of game.select(PLAYER_POSITION_VELOCITY_QUERY)) {
+      const pos = player.get(Position)!;
+      const vel = player.get(Velocity)!;
+      if (Math.abs(vel.x) > 0.5 || Math.abs(vel.y) > 0.5) spawnParticles(game, 'trail', pos.x, pos.y + 10);
+    }
+  },
+};
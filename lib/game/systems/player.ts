@@ -0,0 +1,40 @@
+import { Input, Player } from '../components';
+import { continueGame, fireBomb } from '../combat';
+import { whilePlaying, type System } from '../scheduler';
+import { defineQuery } from '../ecs';
+
+const INPUT_QUERY = defineQuery(Input);
+const PLAYER_QUERY = defineQuery(Player);
+
+// PlayerStatusSystem: 無敵時間のカウントダウンとボム（押した瞬間だけ発動）
+export const playerStatusSystem: System = {
+  name: 'PlayerStatus',
+  phase: 'input',
+  order: 10,
+  runIf: whilePlaying,
+  query: [Player],
+  run(game) {
+    const inp = game.select(INPUT_QUERY)[0]?.get(Input);
+    for (const p of game.select(PLAYER_QUERY)) {
+      const info = p.get(Player)!;
+      if (info.invuln > 0) info.invuln--;
+      const bomb = !!inp?.bomb;
+      if (bomb && !info.bombHeld) fireBomb(game, p);
+      info.bombHeld = bomb;
+    }
+  },
+};
+
+// ContinueSystem: gameOver 中の受付カウントダウン。射撃ボタンを一度離してから押すとコンティニュー、
+// 締め切ったら results へ
+export const continueSystem: System = {
+  name: 'Continue',
+  phase: 'input',
+  runIf: game => game.gameState === 'gameOver',
+  run(game) {
+    const inp = game.select(INPUT_QUERY)[0]?.get(Input);
+    if (!inp?.shoot) game.continueArmed = true;
+    else if (game.continueArmed && continueGame(game)) return;
+    if (--game.continueTimer <= 0) game.setState('results');
+  },
+};
@@ -0,0 +1,40 @@
+import { Input, Player, Position, Weapon } from '../components';
+import { FIXED_DT_MS } from '../constants';
+import { WEAPONS, type ShotDef, type WeaponType } from '../data/weapons';
+import { spawnPlayerBullet } from '../prefabs';
+import { whilePlaying, type System } from '../scheduler';
+import { defineQuery } from '../ecs';
+
+const INPUT_QUERY = defineQuery(Input);
+const PLAYER_POSITION_WEAPON_QUERY = defineQuery(Player, Position, Weapon);
+
+// 斉射の中身はウェポンと level だけで決まるので、組み合わせごとに 1 回だけ作る
+const volleys: Partial<Record<WeaponType, ShotDef[][]>> = {};
+function volleyOf(type: WeaponType, level: number) {
+  const byLevel = (volleys[type] ??= []);
+  return (byLevel[level] ??= WEAPONS[type].volley(level));
+}
+
+// ShootingSystem: player shooting => spawn the current weapon's volley (fire rate from the weapon level, measured in ticks)
+export const shootingSystem: System = {
+  name: 'Shooting',
+  phase: 'update',
+  runIf: whilePlaying,
+  run(game) {
+    const inputEntity = game.select(INPUT_QUERY)[0];
+    if (!inputEntity) return;
+    const inp = inputEntity.get(Input)!;
+    const players = game.select(PLAYER_POSITION_WEAPON_QUERY);
+    if (!players.length) return;
+
+    const player = players[0];
+    const weapon = player.get(Weapon)!;
+    const def = WEAPONS[weapon.type];
+    if (inp.shoot && (game.tick - game.lastFireTick) * FIXED_DT_MS > def.fireRate(weapon.level)) {
+      const ppos = player.get(Position)!;
+      for (const shot of volleyOf(weapon.type, weapon.level)) spawnPlayerBullet(game, ppos.x, ppos.y, shot);
+      game.lastFireTick = game.tick;
+      game.events.emit('bulletFired', { owner: 'player', x: ppos.x, y: ppos.y, weapon: weapon.type });
+    }
+  },
+};
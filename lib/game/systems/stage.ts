@@ -0,0 +1,11 @@
+import { whilePlaying, type System } from '../scheduler';
+
+// StageSystem: ステージスクリプトに従って敵を出す（旧 EnemySpawnSystem の置き換え）
+export const stageSystem: System = {
+  name: 'Stage',
+  phase: 'update',
+  runIf: whilePlaying,
+  run(game) {
+    game.stage.update(game);
+  },
+};
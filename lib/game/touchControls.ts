@@ -0,0 +1,150 @@
+import { Player, Position, type InputState } from './components';
+import { applyDeadzone } from './controls';
+import type { Game } from './game';
+import { clamp, createVector2, type Vec2 } from './math';
+import { defineQuery } from './ecs';
+
+const PLAYER_POSITION_QUERY = defineQuery(Player, Position);
+
+// ====== タッチ操作 ======
+// drag: 指を動かした分（× 感度）だけ自機が動く（指の下に自機が隠れない）。offset px だけ上にずらす。射撃・ボムは画面上のボタン
+// joystick: 触れた位置を中心にバーチャルスティックを出す。射撃・ボムは画面上のボタン
+// chase: 旧来の「指を追いかける + 触れている間は射撃」（offset px だけ指より上に自機を置く）
+export const TOUCH_SCHEMES = ['drag', 'joystick', 'chase'] as const;
+export type TouchScheme = (typeof TOUCH_SCHEMES)[number];
+
+export const TOUCH_SCHEME_LABELS: Record<TouchScheme, string> = {
+  drag: 'ドラッグ',
+  joystick: 'バーチャルスティック',
+  chase: '指に追従',
+};
+
+export const isTouchScheme = (v: unknown): v is TouchScheme => TOUCH_SCHEMES.includes(v as TouchScheme);
+
+// スティックを最大まで倒したとみなす指の移動量 (px) とデッドゾーン
+export const JOYSTICK_RADIUS = 40;
+export const JOYSTICK_DEADZONE = 0.15;
+
+// ===== 画面上のボタン配置（描画と当たり判定で共有） =====
+export type TouchButton = 'fire' | 'bomb';
+export type Circle = { x: number; y: number; r: number };
+
+export function touchButtonLayout(game: Game): Record<TouchButton, Circle> {
+  return {
+    fire: { x: game.width - 48, y: game.height - 72, r: 30 },
+    bomb: { x: game.width - 104, y: game.height - 36, r: 22 },
+  };
+}
+
+// 指は太いので見た目より少し広く拾う
+export function touchButtonAt(game: Game, x: number, y: number): TouchButton | null {
+  const layout = touchButtonLayout(game);
+  for (const button of ['fire', 'bomb'] as const) {
+    const c = layout[button];
+    if (Math.hypot(x - c.x, y - c.y) <= c.r * 1.3) return button;
+  }
+  return null;
+}
+
+// 追跡中の指 1 本。anchor は drag で指を置いたときの自機位置
+type TrackedTouch = { role: 'move' | TouchButton; start: Vec2; pos: Vec2; anchor: Vec2 };
+
+// 同時に触れている指を identifier ごとに覚え、フレームごとに入力へまとめる
+export class TouchControls {
+  private touches = new Map<number, TrackedTouch>();
+  // 一度でもタッチされたら画面上のボタンを出す（マウス / キーボードだけなら出さない）
+  active = false;
+
+  constructor(private game: Game) {}
+
+  get scheme() {
+    return this.game.settings.touchScheme;
+  }
+
+  get showButtons() {
+    return this.active && this.scheme !== 'chase';
+  }
+
+  start(id: number, pos: Vec2) {
+    this.active = true;
+    const button = this.showButtons ? touchButtonAt(this.game, pos.x, pos.y) : null;
+    if (!button && this.find('move')) return; // 移動用の指は 1 本だけ
+    const player = this.game.select(PLAYER_POSITION_QUERY)[0];
+    const ship = player ? player.get(Position)! : pos;
+    this.touches.set(id, { role: button ?? 'move', start: pos, pos, anchor: createVector2(ship.x, ship.y) });
+  }
+
+  move(id: number, pos: Vec2) {
+    const t = this.touches.get(id);
+    if (!t) return;
+    t.pos = pos;
+    // スティックは指が半径の外へ出たら土台ごと付いていく
+    if (t.role === 'move' && this.scheme === 'joystick') {
+      const dx = pos.x - t.start.x;
+      const dy = pos.y - t.start.y;
+      const d = Math.hypot(dx, dy);
+      if (d > JOYSTICK_RADIUS) {
+        t.start = createVector2(pos.x - (dx / d) * JOYSTICK_RADIUS, pos.y - (dy / d) * JOYSTICK_RADIUS);
+      }
+    }
+  }
+
+  end(id: number) {
+    this.touches.delete(id);
+  }
+
+  clear() {
+    this.touches.clear();
+  }
+
+  held(button: TouchButton) {
+    return !!this.find(button);
+  }
+
+  // 描画用：スティックの土台と指の位置
+  get stick(): { base: Vec2; knob: Vec2 } | null {
+    const t = this.find('move');
+    if (!t || this.scheme !== 'joystick') return null;
+    return { base: t.start, knob: t.pos };
+  }
+
+  private find(role: TrackedTouch['role']) {
+    let found: TrackedTouch | null = null;
+    this.touches.forEach(t => {
+      if (!found && t.role === role) found = t;
+    });
+    return found as TrackedTouch | null;
+  }
+
+  // 今の指の状態を入力にする。コンティニュー待ち (gameOver) は画面のどこをタップしても射撃扱い
+  read(): { input: Partial<InputState>; fire: boolean; bomb: boolean } {
+    const game = this.game;
+    const settings = game.settings;
+    const move = this.find('move');
+    const input: Partial<InputState> = { touching: false };
+    let fire = this.held('fire');
+    if (move) {
+      if (this.scheme === 'joystick') {
+        const stick = applyDeadzone(
+          (move.pos.x - move.start.x) / JOYSTICK_RADIUS,
+          (move.pos.y - move.start.y) / JOYSTICK_RADIUS,
+          JOYSTICK_DEADZONE,
+        );
+        input.axisX = stick.x;
+        input.axisY = stick.y;
+      } else {
+        const target =
+          this.scheme === 'drag'
+            ? createVector2(
+                move.anchor.x + (move.pos.x - move.start.x) * settings.touchSensitivity,
+                move.anchor.y + (move.pos.y - move.start.y) * settings.touchSensitivity - settings.touchOffset,
+              )
+            : createVector2(move.pos.x, move.pos.y - settings.touchOffset);
+        input.touching = true;
+        input.mousePos = createVector2(clamp(target.x, 0, game.width), clamp(target.y, 0, game.height));
+      }
+      if (this.scheme === 'chase' || game.gameState === 'gameOver') fire = true;
+    }
+    return { input, fire, bomb: this.held('bomb') };
+  }
+}
@@ -0,0 +1,33 @@
+// ====== 投稿の回数制限 ======
+// replay の再生は重い（最長 30 分ぶんを同期で回す）ので、送信元ごとに windowMs 内の回数を絞る。
+// プロセス内だけで数えるので、複数台で動かすなら共有の保存先に置き換える
+
+// これを超えたら期限切れの記録を掃除する
+const MAX_KEYS = 10000;
+
+export class RateLimiter {
+  private hits = new Map<string, number[]>();
+
+  constructor(
+    readonly limit: number,
+    readonly windowMs: number,
+  ) {}
+
+  // 受け付けてよければ true（受け付けた 1 回を数える）
+  take(key: string, now = Date.now()) {
+    if (this.hits.size > MAX_KEYS) this.prune(now);
+    const recent = (this.hits.get(key) ?? []).filter(t => now - t < this.windowMs);
+    const ok = recent.length < this.limit;
+    if (ok) recent.push(now);
+    this.hits.set(key, recent);
+    return ok;
+  }
+
+  private prune(now: number) {
+    const expired: string[] = [];
+    this.hits.forEach((times, key) => {
+      if (times.every(t => now - t >= this.windowMs)) expired.push(key);
+    });
+    expired.forEach(key => this.hits.delete(key));
+  }
+}
@@ -0,0 +1,112 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+import type { LeaderboardEntry, LeaderboardMode, RankedEntry } from './types';
+
+// ====== ランキングの保存先 ======
+// 差し替えられるよう interface で受ける。既定はローカルの JSON ファイル
+
+export interface LeaderboardStore {
+  // 保存して、その mode での順位 (1 始まり) を返す。同じ mode に同じ replay があれば保存せず null
+  add(entry: LeaderboardEntry): Promise<number | null>;
+  // 同じ mode に同じ replay が登録済みか（重い再生の前に見る）
+  hasReplay(mode: LeaderboardMode, replayHash: string): Promise<boolean>;
+  // 順位順に offset から limit 件
+  list(mode: LeaderboardMode, offset: number, limit: number): Promise<{ total: number; entries: RankedEntry[] }>;
+}
+
+// 高いスコアが先、同点なら先に登録した方が上
+const compareEntries = (a: LeaderboardEntry, b: LeaderboardEntry) => b.score - a.score || a.date.localeCompare(b.date);
+
+const rankOf = (entries: LeaderboardEntry[], entry: LeaderboardEntry) =>
+  entries.filter(e => e.mode === entry.mode && compareEntries(e, entry) < 0).length + 1;
+
+const isDuplicate = (entries: LeaderboardEntry[], mode: LeaderboardMode, hash: string | undefined) =>
+  !!hash && entries.some(e => e.mode === mode && e.replayHash === hash);
+
+const pageOf = (entries: LeaderboardEntry[], mode: LeaderboardMode, offset: number, limit: number) => {
+  const ranked = entries.filter(e => e.mode === mode).sort(compareEntries);
+  return {
+    total: ranked.length,
+    entries: ranked.slice(offset, offset + limit).map((e, i) => ({ ...e, rank: offset + i + 1 })),
+  };
+};
+
+// プロセス内だけ（開発・テスト用）
+export class MemoryLeaderboardStore implements LeaderboardStore {
+  private entries: LeaderboardEntry[] = [];
+
+  async add(entry: LeaderboardEntry) {
+    if (isDuplicate(this.entries, entry.mode, entry.replayHash)) return null;
+    this.entries.push(entry);
+    return rankOf(this.entries, entry);
+  }
+
+  async hasReplay(mode: LeaderboardMode, replayHash: string) {
+    return isDuplicate(this.entries, mode, replayHash);
+  }
+
+  async list(mode: LeaderboardMode, offset: number, limit: number) {
+    return pageOf(this.entries, mode, offset, limit);
+  }
+}
+
+// 1 つの JSON ファイルに全件を書く。書き込みは直列化し、一時ファイル経由で置き換える
+export class FileLeaderboardStore implements LeaderboardStore {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private file: string) {}
+
+  private async read(): Promise<LeaderboardEntry[]> {
+    try {
+      const data = JSON.parse(await fs.readFile(this.file, 'utf8'));
+      return Array.isArray(data) ? data : [];
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw err;
+    }
+  }
+
+  private async write(entries: LeaderboardEntry[]) {
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    const tmp = `${this.file}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(entries));
+    await fs.rename(tmp, this.file);
+  }
+
+  // 読み書きが交差しないよう 1 本のキューに並べる
+  private serial<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  add(entry: LeaderboardEntry) {
+    return this.serial(async () => {
+      const entries = await this.read();
+      if (isDuplicate(entries, entry.mode, entry.replayHash)) return null;
+      entries.push(entry);
+      await this.write(entries);
+      return rankOf(entries, entry);
+    });
+  }
+
+  hasReplay(mode: LeaderboardMode, replayHash: string) {
+    return this.serial(async () => isDuplicate(await this.read(), mode, replayHash));
+  }
+
+  list(mode: LeaderboardMode, offset: number, limit: number) {
+    return this.serial(async () => pageOf(await this.read(), mode, offset, limit));
+  }
+}
+
+// 環境変数で保存先を選ぶ（LEADERBOARD_STORE=memory|file、LEADERBOARD_FILE=パス）
+let store: LeaderboardStore | null = null;
+export function getLeaderboardStore(): LeaderboardStore {
+  if (store) return store;
+  store =
+    process.env.LEADERBOARD_STORE === 'memory'
+      ? new MemoryLeaderboardStore()
+      : new FileLeaderboardStore(process.env.LEADERBOARD_FILE ?? path.join(process.cwd(), '.data', 'leaderboard.json'));
+  return store;
+}
@@ -0,0 +1,76 @@
+import { createHash, randomUUID } from 'crypto';
+
+import { FIXED_DT_MS, GAME_HEIGHT, GAME_WIDTH, normalizeName, parseReplay, replayPlayfield, runReplay, type Replay } from '@/lib/game';
+
+import { isLeaderboardMode, type LeaderboardEntry, type ScoreSubmission } from './types';
+
+// ====== 投稿の検証 ======
+// 申告された score をそのまま信じず、replay を Node 上でもう一度再生して一致したものだけ受け付ける
+
+// 再生にかかる時間の上限（30 分ぶん）。これより長い replay は受け付けない
+export const MAX_REPLAY_TICKS = Math.round((30 * 60 * 1000) / FIXED_DT_MS);
+
+// HTTP ステータス付きの検証エラー
+export class SubmissionError extends Error {
+  constructor(
+    message: string,
+    readonly status = 400,
+  ) {
+    super(message);
+    this.name = 'SubmissionError';
+  }
+}
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+// 同じ replay の再投稿を見分ける指紋（parseReplay で整えた後の seed + 入力ログ）
+export const replayHash = (replay: Replay) => createHash('sha256').update(JSON.stringify(replay)).digest('hex');
+
+export function parseSubmission(data: unknown): ScoreSubmission {
+  const s = data as ScoreSubmission;
+  if (!s || typeof s !== 'object') throw new SubmissionError('invalid submission');
+  if (typeof s.name !== 'string' || s.name.length > 100) throw new SubmissionError('invalid name');
+  if (!isLeaderboardMode(s.mode)) throw new SubmissionError(`unknown mode: ${String(s.mode)}`);
+  if (!Number.isInteger(s.score) || s.score < 0 || !Number.isInteger(s.stage)) throw new SubmissionError('invalid score');
+  // 入力の型・範囲（stick は -1..1、mousePos はプレイフィールド内）もここで弾く
+  let replay;
+  try {
+    replay = parseReplay(s.replay);
+  } catch (err) {
+    throw new SubmissionError(`invalid replay: ${errorMessage(err)}`, 422);
+  }
+  if (replay.ticks <= 0 || replay.ticks > MAX_REPLAY_TICKS) throw new SubmissionError('replay too long');
+  // 入力は 1 tick に 1 件まで（applyInput が同じ tick の変化をまとめるため）
+  if (replay.events.length > replay.ticks + 1) throw new SubmissionError('invalid replay: too many events');
+  return { name: s.name, mode: s.mode, score: s.score, stage: s.stage, replay };
+}
+
+// replay を最後まで再生し、申告と食い違えば 422。通ればランキングの 1 件を作る
+export function verifySubmission(sub: ScoreSubmission): LeaderboardEntry {
+  const { width, height } = replayPlayfield(sub.replay);
+  if (width !== GAME_WIDTH || height !== GAME_HEIGHT) throw new SubmissionError('only the standard playfield is ranked', 422);
+  // 検証を通った replay でも、再生中の例外はクライアントのデータが原因なので 422 にする
+  let game;
+  try {
+    game = runReplay(sub.replay);
+  } catch (err) {
+    throw new SubmissionError(`replay failed: ${errorMessage(err)}`, 422);
+  }
+  if (game.gameState !== 'results') throw new SubmissionError('replay does not end with a finished run', 422);
+  if (game.score !== sub.score || game.stage.number !== sub.stage) {
+    throw new SubmissionError('score does not match replay', 422);
+  }
+  if (sub.mode === 'oneCredit' && game.continues > 0) throw new SubmissionError('continues are not allowed in oneCredit', 422);
+  return {
+    id: randomUUID(),
+    mode: sub.mode,
+    name: normalizeName(sub.name),
+    score: game.score,
+    stage: game.stage.number,
+    seed: sub.replay.seed,
+    ticks: sub.replay.ticks,
+    continues: game.continues,
+    replayHash: replayHash(sub.replay),
+    date: new Date().toISOString(),
+  };
+}
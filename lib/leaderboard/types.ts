@@ -0,0 +1,48 @@
+import type { Replay } from '@/lib/game';
+
+// ====== オンラインランキングの共通型（クライアント / サーバー両方から import する） ======
+
+// arcade: コンティニューあり / oneCredit: コンティニューなしで走り切った記録だけ
+export const LEADERBOARD_MODES = ['arcade', 'oneCredit'] as const;
+export type LeaderboardMode = (typeof LEADERBOARD_MODES)[number];
+export const isLeaderboardMode = (mode: unknown): mode is LeaderboardMode =>
+  typeof mode === 'string' && (LEADERBOARD_MODES as readonly string[]).includes(mode);
+
+export const LEADERBOARD_PAGE_SIZE = 20;
+export const LEADERBOARD_MAX_PAGE_SIZE = 100;
+
+// クライアントが送るもの。score / stage は自己申告で、サーバーが replay を再生して照合する
+export type ScoreSubmission = {
+  name: string;
+  mode: LeaderboardMode;
+  score: number;
+  stage: number;
+  replay: Replay;
+};
+
+// サーバーに保存される 1 件（検証済みの値だけを持つ）
+export type LeaderboardEntry = {
+  id: string;
+  mode: LeaderboardMode;
+  name: string;
+  score: number;
+  stage: number;
+  seed: number;
+  ticks: number;
+  continues: number;
+  // 同じ replay の二重登録を防ぐ指紋（submission.ts の replayHash）
+  replayHash?: string;
+  date: string; // ISO 8601
+};
+
+export type RankedEntry = LeaderboardEntry & { rank: number };
+
+export type LeaderboardPage = {
+  mode: LeaderboardMode;
+  page: number; // 1 始まり
+  pageSize: number;
+  total: number;
+  entries: RankedEntry[];
+};
+
+export type SubmitResult = { rank: number; entry: LeaderboardEntry };